@@ -3,9 +3,14 @@ import * as p from "@clack/prompts";
 import color from "picocolors";
 import fs from "fs-extra";
 import path from "path";
-import { fileURLToPath } from "url";
-
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
+import { createTwoFilesPatch } from "diff";
+import { detectConfig } from "./cli/detect";
+import { websocketFeature } from "./cli/features/realtime";
+import { featureContext, generateProject } from "./cli/generate";
+import { CLI_VERSION, hashContent, readManifest, saveManifest } from "./cli/manifest";
+import { patchTodosPage, patchTodosRoute, snippetFor } from "./cli/patch";
+import { colorizePatch } from "./cli/preview";
+import { TEMPLATES_DIR } from "./cli/template";
 
 async function main() {
     console.clear();
@@ -29,12 +34,26 @@ async function main() {
         const projectRoot = process.cwd();
 
         // Check if we're in an AFC Stack project
-        if (!fs.existsSync(path.join(projectRoot, "apps", "web"))) {
+        const manifest = await readManifest(projectRoot);
+        if (!manifest && !fs.existsSync(path.join(projectRoot, "apps", "web"))) {
             s.stop("Not in AFC Stack project");
             p.cancel("This doesn't appear to be an AFC Stack project. Make sure you're in the project root.");
             process.exit(1);
         }
 
+        // afc.json knows the stack; older projects have it worked out from their files
+        const config = manifest?.config ?? (await detectConfig(projectRoot));
+        if (!config.monorepo) {
+            s.stop("Single-app project");
+            p.cancel("This script only supports the monorepo layout. Use `bun run add websocket` instead.");
+            process.exit(1);
+        }
+        if (config.realtime !== "none") {
+            s.stop("Realtime already configured");
+            p.cancel(`This project already uses ${config.realtime} for realtime`);
+            process.exit(1);
+        }
+
         // Check if WS already exists
         if (fs.existsSync(path.join(projectRoot, "apps", "ws"))) {
             s.stop("WebSocket already exists");
@@ -44,70 +63,117 @@ async function main() {
 
         s.message("Copying WebSocket service");
 
-        // Find the template directory (might be in node_modules or parent)
-        let templatePath: string | null = null;
-        const possiblePaths = [
-            path.join(__dirname, "..", "cli-templates", "extras", "websocket"),
-            path.join(projectRoot, "cli-templates", "extras", "websocket"),
-            path.join(__dirname, "cli-templates", "extras", "websocket")
-        ];
-
-        for (const p of possiblePaths) {
-            if (fs.existsSync(p)) {
-                templatePath = p;
-                break;
-            }
-        }
-
-        if (!templatePath) {
+        const templatePath = path.join(TEMPLATES_DIR, "extras", "websocket");
+        if (!fs.existsSync(templatePath)) {
             s.stop("Templates not found");
             p.cancel("Could not find WebSocket templates. Make sure you're using the latest AFC Stack version.");
             process.exit(1);
         }
 
-        // Copy WebSocket service
-        const wsSource = path.join(templatePath, "ws");
+        // Copy WebSocket service as the generator writes it, converted for JavaScript projects
         const wsTarget = path.join(projectRoot, "apps", "ws");
-        await fs.copy(wsSource, wsTarget);
-
-        s.message("Updating frontend");
-
-        // Update page.tsx
-        const pageSource = path.join(templatePath, "page.tsx");
-        const pageTarget = path.join(projectRoot, "apps", "web", "src", "app", "page.tsx");
-        await fs.copy(pageSource, pageTarget);
-
-        s.message("Updating API routes");
+        const withWebSocket = await generateProject({ ...config, realtime: "websocket" });
+        for (const file of withWebSocket.files().filter((file) => file.startsWith("apps/ws/"))) {
+            await fs.outputFile(path.join(projectRoot, file), withWebSocket.read(file)!);
+        }
 
-        // Update API route
-        const routeSource = path.join(templatePath, "route.ts");
-        const routeTarget = path.join(projectRoot, "apps", "web", "src", "app", "api", "todos", "route.ts");
-        await fs.copy(routeSource, routeTarget);
+        // The page and route are patched where the generator would put the same snippets,
+        // so edits made to them are kept
+        const slots = websocketFeature.slots!(featureContext(config));
+        const ext = config.language === "typescript" ? "ts" : "js";
+        const patches = [
+            {
+                file: `apps/web/src/app/page.${ext}x`,
+                marker: "NEXT_PUBLIC_WS_URL",
+                patch: patchTodosPage,
+                snippet: slots.PAGE_EFFECT![0]
+            },
+            {
+                file: `apps/web/src/app/api/todos/route.${ext}`,
+                marker: "WS_INTERNAL_URL",
+                patch: patchTodosRoute,
+                snippet: slots.TODOS_CREATED![0]
+            }
+        ];
+        const rc = path.join(projectRoot, ".prettierrc");
+        const prettierOptions = fs.existsSync(rc) ? await fs.readJson(rc) : {};
+        const patched: string[] = [];
+        const failed: { file: string; reason: string }[] = [];
+        for (const { file, marker, patch, snippet } of patches) {
+            s.message(`Updating ${file}`);
+            const target = path.join(projectRoot, file);
+            if (!fs.existsSync(target)) {
+                failed.push({ file, reason: "it does not exist" });
+                continue;
+            }
+            const source = await fs.readFile(target, "utf-8");
+            if (source.includes(marker)) continue;
+            try {
+                await fs.writeFile(target, patch(file, source, await snippetFor(config, snippet, prettierOptions)));
+                patched.push(file);
+            } catch (error) {
+                failed.push({ file, reason: error instanceof Error ? error.message : String(error) });
+            }
+        }
 
         s.message("Updating environment variables");
 
-        // Update .env.example
-        const envExamplePath = path.join(projectRoot, ".env.example");
-        if (fs.existsSync(envExamplePath)) {
-            let envContent = await fs.readFile(envExamplePath, "utf-8");
-            if (!envContent.includes("NEXT_PUBLIC_WS_URL")) {
-                envContent += `\n# WebSocket Realtime\nNEXT_PUBLIC_WS_URL=ws://localhost:4001\nWS_INTERNAL_URL=http://localhost:4001\nPORT=4001\n`;
-                await fs.writeFile(envExamplePath, envContent);
-            }
+        // The same variables the generator writes for the WebSocket feature
+        const envBlock = websocketFeature.env!(featureContext(config))
+            .map((group) => `\n# ${group.title}\n${group.vars.map(({ key, value }) => `${key}=${value}`).join("\n")}\n`)
+            .join("");
+        for (const file of [".env.example", ".env"]) {
+            const envPath = path.join(projectRoot, file);
+            if (!fs.existsSync(envPath)) continue;
+            const envContent = await fs.readFile(envPath, "utf-8");
+            if (!envContent.includes("NEXT_PUBLIC_WS_URL")) await fs.writeFile(envPath, envContent + envBlock);
         }
 
-        // Update .env if exists
-        const envPath = path.join(projectRoot, ".env");
-        if (fs.existsSync(envPath)) {
-            let envContent = await fs.readFile(envPath, "utf-8");
-            if (!envContent.includes("NEXT_PUBLIC_WS_URL")) {
-                envContent += `\n# WebSocket Realtime\nNEXT_PUBLIC_WS_URL=ws://localhost:4001\nWS_INTERNAL_URL=http://localhost:4001\nPORT=4001\n`;
-                await fs.writeFile(envPath, envContent);
+        if (manifest) {
+            s.message("Updating afc.json");
+            const written = [
+                ...(await fs.readdir(wsTarget, { recursive: true, withFileTypes: true }))
+                    .filter((entry) => entry.isFile())
+                    .map((entry) => path.relative(projectRoot, path.join(entry.parentPath, entry.name))),
+                ...patched,
+                ".env.example",
+                ".env"
+            ];
+            for (const file of written) {
+                const target = path.join(projectRoot, file);
+                if (fs.existsSync(target)) {
+                    manifest.files[file.split(path.sep).join("/")] = hashContent(await fs.readFile(target, "utf-8"));
+                }
             }
+            await saveManifest(projectRoot, {
+                ...manifest,
+                version: CLI_VERSION,
+                config: { ...manifest.config, realtime: "websocket" }
+            });
         }
 
         s.stop("WebSocket added successfully!");
 
+        if (failed.length > 0) {
+            // The generated versions of the file without and with WebSocket show what to change
+            const before = await generateProject(config);
+            for (const { file, reason } of failed) {
+                p.log.warn(`Could not update ${file} safely: ${reason}. Apply this change by hand:`);
+                console.log(
+                    colorizePatch(
+                        createTwoFilesPatch(
+                            file,
+                            file,
+                            before.read(file) ?? "",
+                            withWebSocket.read(file) ?? "",
+                            "generated",
+                            "with WebSocket"
+                        )
+                    )
+                );
+            }
+        }
+
         p.outro(
             `${color.green("✓")} WebSocket service has been added!\n\n` +
                 `Next steps:\n` +
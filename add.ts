@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+import * as p from "@clack/prompts";
+import color from "picocolors";
+import fs from "fs-extra";
+import path from "path";
+import { ADD_USAGE, featureLabel, withFeature } from "./cli/add";
+import { parseProjectCommandArgs } from "./cli/args";
+import { applyChanges, planChanges } from "./cli/apply";
+import { detectConfig, readSecrets } from "./cli/detect";
+import { featureContext, generateProject } from "./cli/generate";
+import { MANIFEST_FILE, readManifest } from "./cli/manifest";
+import { colorizePatch, printChanges } from "./cli/preview";
+import { createSecrets } from "./cli/secrets";
+
+async function main() {
+    let options: ReturnType<typeof parseProjectCommandArgs>;
+    try {
+        options = parseProjectCommandArgs(process.argv.slice(2), 1);
+    } catch (error) {
+        p.cancel(error instanceof Error ? error.message : "Invalid arguments");
+        console.log(`\n${ADD_USAGE}`);
+        process.exit(1);
+    }
+
+    const [feature] = options.args;
+    if (options.help || !feature) {
+        console.log(ADD_USAGE);
+        process.exit(options.help ? 0 : 1);
+    }
+
+    const { yes, dryRun } = options;
+    const root = path.resolve(options.cwd);
+
+    p.intro(color.bgCyan(color.black(` Add ${featureLabel(feature)} to AFC Stack `)));
+
+    // Check if we're in an AFC Stack project
+    if (
+        !fs.existsSync(path.join(root, MANIFEST_FILE)) &&
+        !(fs.existsSync(path.join(root, "package.json")) && fs.existsSync(path.join(root, ".env.example")))
+    ) {
+        p.cancel("This doesn't appear to be an AFC Stack project. Make sure you're in the project root.");
+        process.exit(1);
+    }
+
+    const s = p.spinner();
+    s.start("Reading project");
+
+    try {
+        // Projects generated before afc.json existed have their options worked out from their files
+        const manifest = await readManifest(root);
+        const config = manifest?.config ?? (await detectConfig(root));
+        const next = withFeature(config, feature);
+
+        s.message("Generating changes");
+        // The project as the current config generates it is the base that tells user edits apart.
+        // Both keep the project's passwords, and secrets the feature needs are drawn once for both
+        const secrets = createSecrets(await readSecrets(root));
+        const changes = await planChanges(
+            root,
+            await generateProject(config, secrets),
+            await generateProject(next, secrets),
+            { manifest }
+        );
+        s.stop(
+            `${manifest ? "Read" : "Detected"} a ${config.monorepo ? "monorepo" : "single app"} using ${config.language} and ${config.packageManager}`
+        );
+
+        if (changes.length === 0) {
+            p.outro(`${featureLabel(feature)} needs no changes to this project`);
+            return;
+        }
+
+        printChanges(changes);
+        const conflicts = changes.filter((change) => change.kind === "conflict");
+        for (const conflict of conflicts) {
+            console.log(`\n${color.bold(conflict.path)} ${color.dim("has been edited, apply this change by hand:")}`);
+            console.log(colorizePatch(conflict.patch!));
+        }
+
+        if (dryRun) {
+            p.outro(`${color.yellow("Dry run:")} nothing was written`);
+            return;
+        }
+
+        if (!yes) {
+            const confirm = await p.confirm({
+                message: `Apply ${changes.length - conflicts.length} change(s) to ${path.basename(root)}?`,
+                initialValue: true
+            });
+            if (!confirm || p.isCancel(confirm)) {
+                p.cancel("Operation cancelled");
+                process.exit(0);
+            }
+        }
+
+        await applyChanges(root, changes);
+
+        const { pm } = featureContext(next);
+        const touched = (file: string) => changes.some((change) => change.path === file && change.kind !== "conflict");
+        p.outro(
+            `${color.green("✓")} ${featureLabel(feature)} has been added!\n\n` +
+                `Next steps:\n` +
+                (changes.some((change) => change.path.endsWith("package.json"))
+                    ? `  ${color.cyan(`${pm} install`)}  ${color.dim("# Install new dependencies")}\n`
+                    : "") +
+                (touched("docker-compose.yml")
+                    ? `  ${color.cyan(`${pm} run docker:up`)}  ${color.dim("# Start the new services")}\n`
+                    : "") +
+                (touched(".env.example") ? `  Fill in the new variables in ${color.cyan(".env")}\n` : "") +
+                `  See ${color.cyan("SETUP.md")} for the setup of ${featureLabel(feature)}` +
+                (conflicts.length > 0
+                    ? `\n\n${color.yellow(`${conflicts.length} edited file(s) were left unchanged`)}, apply the diffs above by hand`
+                    : "")
+        );
+    } catch (error) {
+        s.stop("Failed to add feature");
+        p.cancel(error instanceof Error ? error.message : "Unknown error");
+        process.exit(1);
+    }
+}
+
+main().catch(console.error);
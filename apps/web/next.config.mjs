@@ -1,6 +1,6 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-    transpilePackages: ["@ac/db"],
+    transpilePackages: ["@ac/analytics", "@ac/db"],
     typescript: {
         // FIXME: Temporarily ignore build errors due to Drizzle ORM type conflicts in monorepo
         ignoreBuildErrors: true
@@ -0,0 +1,42 @@
+import {
+    consoleProvider,
+    createAnalytics,
+    noopProvider,
+    plausibleProvider,
+    posthogProvider,
+    umamiProvider,
+    type AnalyticsProvider
+} from "@ac/analytics";
+
+/**
+ * The provider selected by NEXT_PUBLIC_ANALYTICS_PROVIDER. Next.js inlines the NEXT_PUBLIC_*
+ * variables, so the browser and the server pick the same one. Without a configured provider
+ * the calls are logged in development and dropped otherwise.
+ */
+function provider(): AnalyticsProvider {
+    switch (process.env.NEXT_PUBLIC_ANALYTICS_PROVIDER) {
+        case "posthog":
+            if (!process.env.NEXT_PUBLIC_POSTHOG_KEY) break;
+            return posthogProvider({
+                key: process.env.NEXT_PUBLIC_POSTHOG_KEY,
+                host: process.env.NEXT_PUBLIC_POSTHOG_HOST || undefined
+            });
+        case "plausible":
+            if (!process.env.NEXT_PUBLIC_PLAUSIBLE_DOMAIN) break;
+            return plausibleProvider({
+                domain: process.env.NEXT_PUBLIC_PLAUSIBLE_DOMAIN,
+                host: process.env.NEXT_PUBLIC_PLAUSIBLE_HOST || undefined
+            });
+        case "umami":
+            if (!process.env.NEXT_PUBLIC_UMAMI_WEBSITE_ID) break;
+            return umamiProvider({
+                websiteId: process.env.NEXT_PUBLIC_UMAMI_WEBSITE_ID,
+                host: process.env.NEXT_PUBLIC_UMAMI_HOST || undefined
+            });
+        case "none":
+            return noopProvider();
+    }
+    return process.env.NODE_ENV === "development" ? consoleProvider() : noopProvider();
+}
+
+export const analytics = createAnalytics(provider());
@@ -3,6 +3,7 @@ import { db, todos } from "@ac/db";
 import { z } from "zod";
 import arcjet, { fixedWindow } from "@arcjet/next";
 import { desc } from "drizzle-orm";
+import { analytics } from "../../../analytics";
 
 const aj = arcjet({
     key: process.env.ARCJET_KEY!,
@@ -28,6 +29,7 @@ export async function POST(req: Request) {
     if (!parsed.success) return NextResponse.json({ error: "invalid_input" }, { status: 400 });
 
     const [inserted] = await db.insert(todos).values({ title: parsed.data.title }).returning();
+    await analytics.track("todo_created", { title_length: parsed.data.title.length });
 
     // Realtime broadcast an WS-Service
     if (process.env.WS_INTERNAL_URL) {
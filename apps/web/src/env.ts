@@ -8,8 +8,13 @@ export const env = z
         NEXT_PUBLIC_WS_URL: z.string().url(),
         WS_INTERNAL_URL: z.string().url().optional(),
         ARCJET_KEY: z.string().optional(),
+        NEXT_PUBLIC_ANALYTICS_PROVIDER: z.enum(["posthog", "plausible", "umami", "console", "none"]).optional(),
         NEXT_PUBLIC_POSTHOG_KEY: z.string().optional(),
         NEXT_PUBLIC_POSTHOG_HOST: z.string().url().optional(),
+        NEXT_PUBLIC_PLAUSIBLE_DOMAIN: z.string().optional(),
+        NEXT_PUBLIC_PLAUSIBLE_HOST: z.string().url().optional(),
+        NEXT_PUBLIC_UMAMI_WEBSITE_ID: z.string().optional(),
+        NEXT_PUBLIC_UMAMI_HOST: z.string().url().optional(),
         RESEND_API_KEY: z.string().optional(),
         RESEND_FROM: z.string().email().optional(),
         GITHUB_CLIENT_ID: z.string().optional(),
@@ -1,9 +0,0 @@
-import "dotenv/config";
-import { migrate } from "drizzle-orm/node-postgres/migrator";
-import { drizzle } from "drizzle-orm/node-postgres";
-import { Pool } from "pg";
-
-const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-const db = drizzle(pool);
-await migrate(db, { migrationsFolder: "./drizzle" });
-await pool.end();
@@ -1,6 +1,11 @@
+// {{NEXT_CONFIG_IMPORTS}}
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-    transpilePackages: ["@ac/db"],
+    // {{NEXT_CONFIG}}
+    transpilePackages: [
+        // {{TRANSPILE_PACKAGES}}
+    ],
     typescript: {
         // FIXME: Temporarily ignore build errors due to Drizzle ORM type conflicts in monorepo
         ignoreBuildErrors: true
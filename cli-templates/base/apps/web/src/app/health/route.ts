@@ -0,0 +1,4 @@
+/** Liveness probe for the Docker healthcheck and load balancers */
+export function GET() {
+    return Response.json({ ok: true });
+}
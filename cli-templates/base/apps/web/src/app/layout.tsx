@@ -1,11 +1,13 @@
 import "./globals.css";
 import { Providers } from "./providers";
+// {{LAYOUT_IMPORTS}}
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
     return (
         <html lang="en">
             <body>
                 <Providers>{children}</Providers>
+                {/* {{LAYOUT_BODY}} */}
             </body>
         </html>
     );
@@ -10,6 +10,7 @@ export default function Home() {
         fetch("/api/todos")
             .then((r) => r.json())
             .then(setTodos);
+        // {{PAGE_EFFECT}}
     }, []);
 
     const add = async () => {
@@ -1,8 +0,0 @@
-import { defineConfig } from "drizzle-kit";
-
-export default defineConfig({
-    dialect: "postgresql",
-    schema: "./packages/db/src/schema.ts",
-    out: "./drizzle",
-    dbCredentials: { url: process.env.DATABASE_URL! }
-});
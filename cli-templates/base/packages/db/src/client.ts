@@ -1,9 +0,0 @@
-import "dotenv/config";
-import { drizzle } from "drizzle-orm/node-postgres";
-import { Pool } from "pg";
-
-const connectionString = process.env.DATABASE_URL!;
-const pool = new Pool({ connectionString, max: 5 });
-
-export const db = drizzle(pool);
-export * from "./schema";
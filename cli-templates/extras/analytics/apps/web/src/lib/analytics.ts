@@ -0,0 +1,9 @@
+// {{ANALYTICS_IMPORTS}}
+
+/** The configured provider; until its variables are set, calls are logged in development and dropped otherwise */
+function provider(): AnalyticsProvider {
+    // {{ANALYTICS_PROVIDER}}
+    return process.env.NODE_ENV === "development" ? consoleProvider() : noopProvider();
+}
+
+export const analytics = createAnalytics(provider());
@@ -0,0 +1,7 @@
+/**
+ * Every event the app tracks, with its properties. `track` accepts only these, so a renamed
+ * event or property is a type error rather than a gap in the dashboards.
+ */
+export interface AnalyticsEvents {
+    todo_created: { title_length: number };
+}
@@ -0,0 +1,40 @@
+import { isBrowser } from "./browser";
+import type { AnalyticsEvents } from "./events";
+import type { AnalyticsProvider, EventProps } from "./types";
+
+export type { AnalyticsEvents } from "./events";
+export type { AnalyticsProvider, EventProps } from "./types";
+export { consoleProvider, noopProvider } from "./console";
+// {{ANALYTICS_EXPORTS}}
+
+export interface Analytics {
+    /** Loads the provider in the browser; call it once when the app mounts */
+    init(): void;
+    track<E extends keyof AnalyticsEvents>(event: E, props: AnalyticsEvents[E]): Promise<void>;
+    identify(userId: string, traits?: EventProps): Promise<void>;
+}
+
+/**
+ * The typed API the app calls, sending to `provider`. Its failures are swallowed: a blocked
+ * script or an unreachable host must not break the page or the request that tracks.
+ */
+export function createAnalytics(provider: AnalyticsProvider): Analytics {
+    let initialized = false;
+    const run = async (call: () => void | Promise<void>) => {
+        try {
+            await call();
+        } catch {
+            // Analytics are best effort
+        }
+    };
+
+    return {
+        init() {
+            if (initialized || !isBrowser()) return;
+            initialized = true;
+            provider.init?.();
+        },
+        track: (event, props) => run(() => provider.track(event, props)),
+        identify: (userId, traits = {}) => run(() => provider.identify(userId, traits))
+    };
+}
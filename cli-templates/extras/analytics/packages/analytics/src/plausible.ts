@@ -0,0 +1,39 @@
+import { isBrowser, loadScript, SERVER_USER_AGENT } from "./browser";
+import type { AnalyticsProvider, EventProps } from "./types";
+
+declare global {
+    interface Window {
+        plausible?: (event: string, options?: { props?: EventProps }) => void;
+    }
+}
+
+export interface PlausibleOptions {
+    /** The site's domain as registered in Plausible */
+    domain: string;
+    host?: string;
+}
+
+/**
+ * Plausible through its script in the browser, which also counts the page views, and through
+ * the Events API on the server. Plausible has no user identities, so `identify` does nothing.
+ */
+export function plausibleProvider({ domain, host = "https://plausible.io" }: PlausibleOptions): AnalyticsProvider {
+    return {
+        name: "plausible",
+        init() {
+            loadScript(`${host}/js/script.js`, { domain });
+        },
+        async track(event, props) {
+            if (isBrowser()) {
+                window.plausible?.(event, { props });
+                return;
+            }
+            await fetch(`${host}/api/event`, {
+                method: "POST",
+                headers: { "content-type": "application/json", "user-agent": SERVER_USER_AGENT },
+                body: JSON.stringify({ name: event, url: `https://${domain}/`, domain, props })
+            });
+        },
+        identify() {}
+    };
+}
@@ -0,0 +1,57 @@
+import { isBrowser, loadScript, SERVER_USER_AGENT } from "./browser";
+import type { AnalyticsProvider, EventProps } from "./types";
+
+declare global {
+    interface Window {
+        umami?: {
+            track: (event: string, data?: EventProps) => void;
+            identify: (id: string, data?: EventProps) => void;
+        };
+    }
+}
+
+export interface UmamiOptions {
+    websiteId: string;
+    host?: string;
+    /** Hostname server events are attributed to */
+    hostname?: string;
+}
+
+/**
+ * Umami through its tracker script in the browser, which also counts the page views, and
+ * through the send API on the server.
+ */
+export function umamiProvider({
+    websiteId,
+    host = "https://cloud.umami.is",
+    hostname = "localhost"
+}: UmamiOptions): AnalyticsProvider {
+    const send = async (type: "event" | "identify", payload: Record<string, unknown>) => {
+        await fetch(`${host}/api/send`, {
+            method: "POST",
+            headers: { "content-type": "application/json", "user-agent": SERVER_USER_AGENT },
+            body: JSON.stringify({ type, payload: { website: websiteId, hostname, url: "/", ...payload } })
+        });
+    };
+
+    return {
+        name: "umami",
+        init() {
+            loadScript(`${host}/script.js`, { websiteId });
+        },
+        async track(event, props) {
+            if (isBrowser()) {
+                window.umami?.track(event, props);
+                return;
+            }
+            await send("event", { name: event, data: props });
+        },
+        async identify(userId, traits) {
+            if (isBrowser()) {
+                window.umami?.identify(userId, traits);
+                return;
+            }
+            await send("identify", { id: userId, data: traits });
+        }
+    };
+}
@@ -0,0 +1,12 @@
+import arcjet from "@arcjet/next";
+
+const aj = arcjet({
+    key: process.env.ARCJET_KEY!,
+    rules: [{ type: "fixed-window", window: "10s", limit: 10 }]
+});
+
+/** Resolves to false when the request should be rejected with 429 */
+export async function rateLimit(req: Request): Promise<boolean> {
+    const decision = await aj.protect(req);
+    return !decision.isDenied();
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { auth, setTestUser } from "./auth";
+
+/**
+ * `bun test` runs with NODE_ENV=test, so auth() uses the local stand-in instead of Clerk
+ */
+
+describe("auth (test mode)", () => {
+    afterEach(() => setTestUser("user_test"));
+
+    it("should return the test user without contacting Clerk", async () => {
+        expect(await auth()).toEqual({ userId: "user_test" });
+    });
+
+    it("should report signed-out requests", async () => {
+        setTestUser(null);
+        expect(await auth()).toEqual({ userId: null });
+    });
+});
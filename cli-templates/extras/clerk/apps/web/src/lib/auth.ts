@@ -0,0 +1,24 @@
+/**
+ * `auth()` for route handlers and server components. Outside of tests this is Clerk's `auth()`;
+ * under `bun test` (NODE_ENV=test) or with CLERK_TEST_MODE=1 it returns a local stand-in user,
+ * so tests run offline without Clerk keys or Clerk's servers. Production builds never use the
+ * stand-in, whatever CLERK_TEST_MODE says, as it would sign every request in.
+ */
+
+/** Whether requests are signed in locally instead of by Clerk; middleware.ts lets them through then */
+export const testMode =
+    process.env.NODE_ENV === "test" || (process.env.CLERK_TEST_MODE === "1" && process.env.NODE_ENV !== "production");
+
+let testUserId: string | null = "user_test";
+
+/** Signs the test-mode user in as `userId`, or out with `null` */
+export function setTestUser(userId: string | null) {
+    testUserId = userId;
+}
+
+export async function auth(): Promise<{ userId: string | null }> {
+    if (testMode) return { userId: testUserId };
+    // Imported lazily so tests never load Clerk's server SDK
+    const clerk = await import("@clerk/nextjs/server");
+    return clerk.auth();
+}
@@ -0,0 +1,25 @@
+import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { testMode } from "@/lib/auth";
+
+// Everything else requires a signed-in user; /health stays open for the container healthcheck
+const isPublicRoute = createRouteMatcher(["/sign-in(.*)", "/sign-up(.*)", "/health"]);
+
+// In test mode auth() signs requests in without Clerk, so Clerk does not guard them here either
+export default testMode
+    ? () => NextResponse.next()
+    : clerkMiddleware(
+          async (auth, req) => {
+              if (!isPublicRoute(req)) await auth.protect();
+          },
+          // The pages in app/sign-in and app/sign-up rather than Clerk's hosted ones
+          { signInUrl: "/sign-in", signUpUrl: "/sign-up" }
+      );
+
+export const config = {
+    matcher: [
+        // Skip Next.js internals and static files
+        "/((?!_next|[^?]*\\.(?:html?|css|js(?!on)|jpe?g|webp|png|gif|svg|ttf|woff2?|ico|csv|docx?|xlsx?|zip|webmanifest)).*)",
+        "/(api|trpc)(.*)"
+    ]
+};
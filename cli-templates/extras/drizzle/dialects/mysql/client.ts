@@ -0,0 +1,17 @@
+import "dotenv/config";
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/mysql2";
+import mysql from "mysql2/promise";
+import * as schema from "./schema";
+
+const pool = mysql.createPool({ uri: process.env.DATABASE_URL!, connectionLimit: 5 });
+
+export const db = drizzle(pool, { schema, mode: "default" });
+export * from "./schema";
+
+/** Inserts a todo and returns the stored row (MySQL has no `RETURNING`, so it is read back) */
+export async function createTodo(values: typeof schema.todos.$inferInsert) {
+    const [{ id }] = await db.insert(schema.todos).values(values).$returningId();
+    const [todo] = await db.select().from(schema.todos).where(eq(schema.todos.id, id));
+    return todo;
+}
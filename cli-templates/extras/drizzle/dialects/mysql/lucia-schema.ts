@@ -0,0 +1,20 @@
+import { mysqlTable, varchar, timestamp } from "drizzle-orm/mysql-core";
+
+/**
+ * Users and sessions of the Lucia-style session auth
+ */
+
+export const users = mysqlTable("users", {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    email: varchar("email", { length: 255 }).notNull().unique(),
+    passwordHash: varchar("password_hash", { length: 255 }).notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow()
+});
+
+export const sessions = mysqlTable("sessions", {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    userId: varchar("user_id", { length: 255 })
+        .notNull()
+        .references(() => users.id, { onDelete: "cascade" }),
+    expiresAt: timestamp("expires_at", { mode: "date" }).notNull()
+});
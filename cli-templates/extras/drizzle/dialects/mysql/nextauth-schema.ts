@@ -0,0 +1,53 @@
+import { mysqlTable, varchar, text, timestamp, int, primaryKey } from "drizzle-orm/mysql-core";
+
+/**
+ * Tables used by the Auth.js Drizzle adapter
+ */
+
+export const users = mysqlTable("user", {
+    id: varchar("id", { length: 255 })
+        .primaryKey()
+        .$defaultFn(() => crypto.randomUUID()),
+    name: varchar("name", { length: 255 }),
+    email: varchar("email", { length: 255 }).unique(),
+    emailVerified: timestamp("emailVerified", { mode: "date", fsp: 3 }),
+    image: varchar("image", { length: 255 })
+});
+
+export const accounts = mysqlTable(
+    "account",
+    {
+        userId: varchar("userId", { length: 255 })
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        type: varchar("type", { length: 255 }).notNull(),
+        provider: varchar("provider", { length: 255 }).notNull(),
+        providerAccountId: varchar("providerAccountId", { length: 255 }).notNull(),
+        refresh_token: text("refresh_token"),
+        access_token: text("access_token"),
+        expires_at: int("expires_at"),
+        token_type: varchar("token_type", { length: 255 }),
+        scope: varchar("scope", { length: 255 }),
+        id_token: text("id_token"),
+        session_state: varchar("session_state", { length: 255 })
+    },
+    (account) => [primaryKey({ columns: [account.provider, account.providerAccountId] })]
+);
+
+export const sessions = mysqlTable("session", {
+    sessionToken: varchar("sessionToken", { length: 255 }).primaryKey(),
+    userId: varchar("userId", { length: 255 })
+        .notNull()
+        .references(() => users.id, { onDelete: "cascade" }),
+    expires: timestamp("expires", { mode: "date" }).notNull()
+});
+
+export const verificationTokens = mysqlTable(
+    "verificationToken",
+    {
+        identifier: varchar("identifier", { length: 255 }).notNull(),
+        token: varchar("token", { length: 255 }).notNull(),
+        expires: timestamp("expires", { mode: "date" }).notNull()
+    },
+    (token) => [primaryKey({ columns: [token.identifier, token.token] })]
+);
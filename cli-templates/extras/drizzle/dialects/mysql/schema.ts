@@ -0,0 +1,10 @@
+import { mysqlTable, serial, varchar, timestamp, boolean } from "drizzle-orm/mysql-core";
+
+export const todos = mysqlTable("todos", {
+    id: serial("id").primaryKey(),
+    title: varchar("title", { length: 200 }).notNull(),
+    completed: boolean("completed").notNull().default(false),
+    createdAt: timestamp("created_at").notNull().defaultNow()
+});
+
+// {{DB_SCHEMA}}
@@ -0,0 +1,16 @@
+import "dotenv/config";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { Pool } from "pg";
+import * as schema from "./schema";
+
+const connectionString = process.env.DATABASE_URL!;
+const pool = new Pool({ connectionString, max: 5 });
+
+export const db = drizzle(pool, { schema });
+export * from "./schema";
+
+/** Inserts a todo and returns the stored row */
+export async function createTodo(values: typeof schema.todos.$inferInsert) {
+    const [todo] = await db.insert(schema.todos).values(values).returning();
+    return todo;
+}
@@ -6,3 +6,5 @@ export const todos = pgTable("todos", {
     completed: boolean("completed").notNull().default(false),
     createdAt: timestamp("created_at").notNull().defaultNow()
 });
+
+// {{DB_SCHEMA}}
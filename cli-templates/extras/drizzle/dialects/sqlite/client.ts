@@ -0,0 +1,17 @@
+import "dotenv/config";
+import { createClient } from "@libsql/client";
+import { drizzle } from "drizzle-orm/libsql";
+import * as schema from "./schema";
+import { databaseUrl } from "./url";
+
+// libSQL runs under both Node.js and Bun, unlike better-sqlite3
+const client = createClient({ url: databaseUrl() });
+
+export const db = drizzle(client, { schema });
+export * from "./schema";
+
+/** Inserts a todo and returns the stored row */
+export async function createTodo(values: typeof schema.todos.$inferInsert) {
+    const [todo] = await db.insert(schema.todos).values(values).returning();
+    return todo;
+}
@@ -0,0 +1,12 @@
+import { sqliteTable, integer, text } from "drizzle-orm/sqlite-core";
+
+export const todos = sqliteTable("todos", {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    title: text("title").notNull(),
+    completed: integer("completed", { mode: "boolean" }).notNull().default(false),
+    createdAt: integer("created_at", { mode: "timestamp" })
+        .notNull()
+        .$defaultFn(() => new Date())
+});
+
+// {{DB_SCHEMA}}
@@ -0,0 +1,14 @@
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+// {{DB_ROOT}}
+
+/**
+ * `DATABASE_URL` with a relative `file:` path resolved against the project root instead of the
+ * working directory: drizzle-kit runs in the root, but the app may not (Next.js runs in apps/web),
+ * and would otherwise open an empty database of its own.
+ */
+export function databaseUrl(url = process.env.DATABASE_URL!): string {
+    if (!url.startsWith("file:") || url.startsWith("file:/")) return url;
+    return pathToFileURL(path.resolve(root, url.slice("file:".length))).href;
+}
@@ -0,0 +1,8 @@
+import { defineConfig } from "drizzle-kit";
+// {{DRIZZLE_CONFIG_IMPORTS}}
+
+export default defineConfig({
+    // {{DRIZZLE_CONFIG}}
+    // {{DRIZZLE_CREDENTIALS}}
+    out: "./drizzle"
+});
@@ -0,0 +1,15 @@
+import { describe, it, expect } from "bun:test";
+import { db, todos } from "../client";
+
+/**
+ * Example database test
+ * Run with DATABASE_URL set to test database
+ */
+
+describe("Database Client", () => {
+    it("should create a db instance with the schema", () => {
+        expect(db).toBeDefined();
+        expect(db.query.todos).toBeDefined();
+        expect(todos).toBeDefined();
+    });
+});
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { verifyPassword } from "@/lib/auth/password";
+import { createSession, generateSessionToken, setSessionTokenCookie } from "@/lib/auth/session";
+import { findUserByEmail } from "@/lib/auth/store";
+
+const signInSchema = z.object({ email: z.string().email(), password: z.string().min(1).max(255) });
+
+export async function POST(req: Request) {
+    const parsed = signInSchema.safeParse(await req.json());
+    if (!parsed.success) return NextResponse.json({ error: "invalid_input" }, { status: 400 });
+
+    const user = await findUserByEmail(parsed.data.email.toLowerCase());
+    // The same error for unknown emails and wrong passwords, so accounts cannot be probed
+    if (!user || !(await verifyPassword(user.passwordHash, parsed.data.password))) {
+        return NextResponse.json({ error: "invalid_credentials" }, { status: 401 });
+    }
+
+    const token = generateSessionToken();
+    const session = await createSession(token, user.id);
+    await setSessionTokenCookie(token, session.expiresAt);
+
+    return NextResponse.json({ user: { id: user.id, email: user.email } });
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { deleteSessionTokenCookie, invalidateSession, validateRequest } from "@/lib/auth/session";
+
+export async function POST() {
+    const { session } = await validateRequest();
+    if (!session) return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+
+    await invalidateSession(session.id);
+    await deleteSessionTokenCookie();
+
+    return new NextResponse(null, { status: 204 });
+}
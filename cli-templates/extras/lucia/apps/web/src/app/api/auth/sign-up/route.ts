@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { hashPassword } from "@/lib/auth/password";
+import { createSession, generateSessionToken, setSessionTokenCookie } from "@/lib/auth/session";
+import { findUserByEmail, insertUser } from "@/lib/auth/store";
+
+const signUpSchema = z.object({ email: z.string().email(), password: z.string().min(8).max(255) });
+
+export async function POST(req: Request) {
+    const parsed = signUpSchema.safeParse(await req.json());
+    if (!parsed.success) return NextResponse.json({ error: "invalid_input" }, { status: 400 });
+
+    const email = parsed.data.email.toLowerCase();
+    if (await findUserByEmail(email)) return NextResponse.json({ error: "email_taken" }, { status: 409 });
+
+    const user = { id: crypto.randomUUID(), email };
+    await insertUser({ ...user, passwordHash: await hashPassword(parsed.data.password) });
+
+    const token = generateSessionToken();
+    const session = await createSession(token, user.id);
+    await setSessionTokenCookie(token, session.expiresAt);
+
+    return NextResponse.json({ user }, { status: 201 });
+}
@@ -0,0 +1,12 @@
+import { hash, verify } from "@node-rs/argon2";
+
+// Argon2id with the parameters OWASP recommends as a minimum
+const options = { memoryCost: 19456, timeCost: 2, outputLen: 32, parallelism: 1 };
+
+export function hashPassword(password: string): Promise<string> {
+    return hash(password, options);
+}
+
+export function verifyPassword(passwordHash: string, password: string): Promise<boolean> {
+    return verify(passwordHash, password, options);
+}
@@ -0,0 +1,95 @@
+import { sha256 } from "@oslojs/crypto/sha2";
+import { encodeBase32LowerCaseNoPadding, encodeHexLowerCase } from "@oslojs/encoding";
+import { cookies } from "next/headers";
+import { cache } from "react";
+import { deleteSession, findSession, insertSession, updateSessionExpiry } from "./store";
+import type { Session, SessionValidationResult } from "./types";
+
+/**
+ * Session handling after the Lucia guide (https://lucia-auth.com): the cookie holds a random
+ * token and the database only its hash, so a leaked sessions table cannot be replayed.
+ */
+
+export const SESSION_COOKIE = "session";
+
+const DAY_IN_MS = 1000 * 60 * 60 * 24;
+/** Sessions last 30 days and are extended when used during their last 15 */
+const SESSION_DURATION_MS = DAY_IN_MS * 30;
+const SESSION_REFRESH_MS = DAY_IN_MS * 15;
+
+export function generateSessionToken(): string {
+    const bytes = new Uint8Array(20);
+    crypto.getRandomValues(bytes);
+    return encodeBase32LowerCaseNoPadding(bytes);
+}
+
+function sessionIdFromToken(token: string): string {
+    return encodeHexLowerCase(sha256(new TextEncoder().encode(token)));
+}
+
+export async function createSession(token: string, userId: string): Promise<Session> {
+    const session: Session = {
+        id: sessionIdFromToken(token),
+        userId,
+        expiresAt: new Date(Date.now() + SESSION_DURATION_MS)
+    };
+    await insertSession(session);
+    return session;
+}
+
+export async function validateSessionToken(token: string): Promise<SessionValidationResult> {
+    const result = await findSession(sessionIdFromToken(token));
+    if (!result) return { session: null, user: null };
+
+    const { session, user } = result;
+    if (Date.now() >= session.expiresAt.getTime()) {
+        await deleteSession(session.id);
+        return { session: null, user: null };
+    }
+    if (Date.now() >= session.expiresAt.getTime() - SESSION_REFRESH_MS) {
+        session.expiresAt = new Date(Date.now() + SESSION_DURATION_MS);
+        await updateSessionExpiry(session.id, session.expiresAt);
+    }
+    return { session, user };
+}
+
+export async function invalidateSession(sessionId: string) {
+    await deleteSession(sessionId);
+}
+
+export async function setSessionTokenCookie(token: string, expiresAt: Date) {
+    (await cookies()).set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        expires: expiresAt,
+        path: "/"
+    });
+}
+
+export async function deleteSessionTokenCookie() {
+    (await cookies()).set(SESSION_COOKIE, "", {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 0,
+        path: "/"
+    });
+}
+
+/**
+ * Returns the signed-in user and session of the current request, or nulls. Works in route
+ * handlers and server components and is deduplicated per request.
+ */
+export const validateRequest = cache(async (): Promise<SessionValidationResult> => {
+    const token = (await cookies()).get(SESSION_COOKIE)?.value;
+    if (!token) return { session: null, user: null };
+
+    const result = await validateSessionToken(token);
+    try {
+        // Keep the cookie in step with the session; server components cannot set cookies
+        if (result.session) await setSessionTokenCookie(token, result.session.expiresAt);
+        else await deleteSessionTokenCookie();
+    } catch {}
+    return result;
+});
@@ -0,0 +1,13 @@
+export interface User {
+    id: string;
+    email: string;
+}
+
+export interface Session {
+    /** SHA-256 hash of the session token; the token itself only lives in the cookie */
+    id: string;
+    userId: string;
+    expiresAt: Date;
+}
+
+export type SessionValidationResult = { session: Session; user: User } | { session: null; user: null };
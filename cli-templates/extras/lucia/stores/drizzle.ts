@@ -0,0 +1,40 @@
+import { eq } from "drizzle-orm";
+// {{AUTH_STORE_IMPORTS}}
+import type { Session, User } from "./types";
+
+/**
+ * Persistence of users and sessions, on the Drizzle tables in the database package
+ */
+
+export async function insertUser(user: User & { passwordHash: string }) {
+    await db.insert(users).values(user);
+}
+
+export async function findUserByEmail(email: string): Promise<(User & { passwordHash: string }) | null> {
+    const [user] = await db
+        .select({ id: users.id, email: users.email, passwordHash: users.passwordHash })
+        .from(users)
+        .where(eq(users.email, email));
+    return user ?? null;
+}
+
+export async function insertSession(session: Session) {
+    await db.insert(sessions).values(session);
+}
+
+export async function findSession(id: string): Promise<{ session: Session; user: User } | null> {
+    const [result] = await db
+        .select({ session: sessions, user: { id: users.id, email: users.email } })
+        .from(sessions)
+        .innerJoin(users, eq(sessions.userId, users.id))
+        .where(eq(sessions.id, id));
+    return result ?? null;
+}
+
+export async function updateSessionExpiry(id: string, expiresAt: Date) {
+    await db.update(sessions).set({ expiresAt }).where(eq(sessions.id, id));
+}
+
+export async function deleteSession(id: string) {
+    await db.delete(sessions).where(eq(sessions.id, id));
+}
@@ -0,0 +1,37 @@
+import type { Session, User } from "./types";
+
+/**
+ * In-memory users and sessions used when the project has no database.
+ * Everything is lost on restart - fine for trying things out, not for production.
+ */
+
+const users = new Map<string, User & { passwordHash: string }>();
+const sessions = new Map<string, Session>();
+
+export async function insertUser(user: User & { passwordHash: string }) {
+    users.set(user.id, user);
+}
+
+export async function findUserByEmail(email: string): Promise<(User & { passwordHash: string }) | null> {
+    return [...users.values()].find((user) => user.email === email) ?? null;
+}
+
+export async function insertSession(session: Session) {
+    sessions.set(session.id, session);
+}
+
+export async function findSession(id: string): Promise<{ session: Session; user: User } | null> {
+    const session = sessions.get(id);
+    const user = session && users.get(session.userId);
+    if (!session || !user) return null;
+    return { session: { ...session }, user: { id: user.id, email: user.email } };
+}
+
+export async function updateSessionExpiry(id: string, expiresAt: Date) {
+    const session = sessions.get(id);
+    if (session) session.expiresAt = expiresAt;
+}
+
+export async function deleteSession(id: string) {
+    sessions.delete(id);
+}
@@ -0,0 +1,66 @@
+// {{AUTH_STORE_IMPORTS}}
+import type { Session, User } from "./types";
+
+/**
+ * Persistence of users and sessions in the `users` and `sessions` collections
+ */
+
+interface UserDocument {
+    _id: string;
+    email: string;
+    passwordHash: string;
+    createdAt: Date;
+}
+
+interface SessionDocument {
+    _id: string;
+    userId: string;
+    expiresAt: Date;
+}
+
+const users = db.collection<UserDocument>("users");
+const sessions = db.collection<SessionDocument>("sessions");
+
+let indexes: Promise<unknown> | undefined;
+
+/** Unique emails, and a TTL index so MongoDB removes expired sessions by itself */
+function ensureIndexes() {
+    return (indexes ??= Promise.all([
+        users.createIndex({ email: 1 }, { unique: true }),
+        sessions.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+    ]));
+}
+
+export async function insertUser({ id, ...user }: User & { passwordHash: string }) {
+    await ensureIndexes();
+    await users.insertOne({ _id: id, ...user, createdAt: new Date() });
+}
+
+export async function findUserByEmail(email: string): Promise<(User & { passwordHash: string }) | null> {
+    await ensureIndexes();
+    const user = await users.findOne({ email });
+    return user && { id: user._id, email: user.email, passwordHash: user.passwordHash };
+}
+
+export async function insertSession({ id, ...session }: Session) {
+    await ensureIndexes();
+    await sessions.insertOne({ _id: id, ...session });
+}
+
+export async function findSession(id: string): Promise<{ session: Session; user: User } | null> {
+    const session = await sessions.findOne({ _id: id });
+    const user = session && (await users.findOne({ _id: session.userId }));
+    if (!session || !user) return null;
+    return {
+        session: { id: session._id, userId: session.userId, expiresAt: session.expiresAt },
+        user: { id: user._id, email: user.email }
+    };
+}
+
+export async function updateSessionExpiry(id: string, expiresAt: Date) {
+    await sessions.updateOne({ _id: id }, { $set: { expiresAt } });
+}
+
+export async function deleteSession(id: string) {
+    await sessions.deleteOne({ _id: id });
+}
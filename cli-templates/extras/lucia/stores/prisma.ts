@@ -0,0 +1,36 @@
+// {{AUTH_STORE_IMPORTS}}
+import type { Session, User } from "./types";
+
+/**
+ * Persistence of users and sessions, on the Prisma `User` and `Session` models
+ */
+
+export async function insertUser(user: User & { passwordHash: string }) {
+    await db.user.create({ data: user });
+}
+
+export async function findUserByEmail(email: string): Promise<(User & { passwordHash: string }) | null> {
+    return db.user.findUnique({ where: { email }, select: { id: true, email: true, passwordHash: true } });
+}
+
+export async function insertSession(session: Session) {
+    await db.session.create({ data: session });
+}
+
+export async function findSession(id: string): Promise<{ session: Session; user: User } | null> {
+    const result = await db.session.findUnique({
+        where: { id },
+        include: { user: { select: { id: true, email: true } } }
+    });
+    if (!result) return null;
+    const { user, ...session } = result;
+    return { session, user };
+}
+
+export async function updateSessionExpiry(id: string, expiresAt: Date) {
+    await db.session.update({ where: { id }, data: { expiresAt } });
+}
+
+export async function deleteSession(id: string) {
+    await db.session.deleteMany({ where: { id } });
+}
@@ -0,0 +1,18 @@
+/**
+ * In-memory todo store used when the project has no ORM.
+ * Data is lost on restart - replace these functions with real queries once a database is wired up.
+ */
+export type Todo = { id: number; title: string; completed: boolean; createdAt: Date };
+
+const store: Todo[] = [];
+let nextId = 1;
+
+export async function listTodos(limit = 50): Promise<Todo[]> {
+    return store.slice(0, limit);
+}
+
+export async function createTodo(title: string): Promise<Todo> {
+    const todo: Todo = { id: nextId++, title, completed: false, createdAt: new Date() };
+    store.unshift(todo);
+    return todo;
+}
@@ -0,0 +1,14 @@
+import { describe, it, expect } from "bun:test";
+import { db, todos } from "../client";
+
+/**
+ * Example database test
+ * Run with DATABASE_URL set to test database
+ */
+
+describe("Database Client", () => {
+    it("should expose the todos collection", () => {
+        expect(db).toBeDefined();
+        expect(todos.collectionName).toBe("todos");
+    });
+});
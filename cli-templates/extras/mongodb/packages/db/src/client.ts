@@ -0,0 +1,43 @@
+import "dotenv/config";
+import { MongoClient, type WithId } from "mongodb";
+
+/** A document of the `todos` collection; the driver adds `_id` */
+export interface TodoDocument {
+    title: string;
+    completed: boolean;
+    createdAt: Date;
+}
+
+/** A todo as the API returns it, with the ObjectId as a string `id` */
+export type Todo = TodoDocument & { id: string };
+
+// The driver connects lazily on the first operation
+export const client = new MongoClient(process.env.DATABASE_URL!, { maxPoolSize: 5 });
+export const db = client.db();
+export const todos = db.collection<TodoDocument>("todos");
+
+let indexes: Promise<unknown> | undefined;
+
+/** Creates the collection indexes once per process; MongoDB skips indexes that already exist */
+function ensureIndexes() {
+    return (indexes ??= todos.createIndex({ createdAt: -1 }));
+}
+
+function toTodo({ _id, ...todo }: WithId<TodoDocument>): Todo {
+    return { id: _id.toHexString(), ...todo };
+}
+
+/** Lists the newest todos first */
+export async function listTodos(limit = 50): Promise<Todo[]> {
+    await ensureIndexes();
+    const documents = await todos.find().sort({ createdAt: -1 }).limit(limit).toArray();
+    return documents.map(toTodo);
+}
+
+/** Inserts a todo and returns the stored document */
+export async function createTodo(values: Pick<TodoDocument, "title">): Promise<Todo> {
+    await ensureIndexes();
+    const todo = { title: values.title, completed: false, createdAt: new Date() };
+    const { insertedId } = await todos.insertOne(todo);
+    return toTodo({ _id: insertedId, ...todo });
+}
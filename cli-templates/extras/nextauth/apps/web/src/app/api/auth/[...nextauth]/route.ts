@@ -1,21 +1,13 @@
 import NextAuth from "next-auth";
-import { DrizzleAdapter } from "@auth/drizzle-adapter";
-import { db } from "@ac/db";
 import GitHub from "next-auth/providers/github";
 import Google from "next-auth/providers/google";
 import Discord from "next-auth/providers/discord";
-import Email from "next-auth/providers/email";
+import type { Provider } from "next-auth/providers";
+// {{AUTH_IMPORTS}}
 
-const providers = [
-    Email({
-        server: {
-            host: "smtp.resend.com",
-            port: 587,
-            auth: { user: "resend", pass: process.env.RESEND_API_KEY! }
-        },
-        from: process.env.RESEND_FROM
-    })
-];
+const providers: Provider[] = [];
+
+// {{AUTH_PROVIDERS}}
 
 if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
     providers.push(GitHub({ clientId: process.env.GITHUB_CLIENT_ID, clientSecret: process.env.GITHUB_CLIENT_SECRET }));
@@ -30,7 +22,7 @@ if (process.env.DISCORD_CLIENT_ID && process.env.DISCORD_CLIENT_SECRET) {
 }
 
 const auth = NextAuth({
-    adapter: DrizzleAdapter(db),
+    // {{AUTH_OPTIONS}}
     providers,
     session: { strategy: "jwt" }
 });
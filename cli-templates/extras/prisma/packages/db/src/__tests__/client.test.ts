@@ -0,0 +1,14 @@
+import { describe, it, expect } from "bun:test";
+import { db } from "../client";
+
+/**
+ * Example database test
+ * Run with DATABASE_URL set to test database
+ */
+
+describe("Database Client", () => {
+    it("should expose the todo model", () => {
+        expect(db).toBeDefined();
+        expect(db.todo).toBeDefined();
+    });
+});
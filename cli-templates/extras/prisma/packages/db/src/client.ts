@@ -0,0 +1,10 @@
+import { PrismaClient } from "@prisma/client";
+
+// Reuse one client across Next.js hot reloads instead of opening a new pool each time
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
+
+export const db = globalForPrisma.prisma ?? new PrismaClient();
+
+if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = db;
+
+export type { Todo } from "@prisma/client";
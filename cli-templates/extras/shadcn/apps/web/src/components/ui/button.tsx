@@ -0,0 +1,37 @@
+import * as React from "react";
+import { Slot } from "@radix-ui/react-slot";
+import { cva, type VariantProps } from "class-variance-authority";
+import { cn } from "@/lib/utils";
+
+const buttonVariants = cva(
+    "inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors disabled:pointer-events-none disabled:opacity-50",
+    {
+        variants: {
+            variant: {
+                default: "bg-neutral-900 text-white hover:bg-neutral-800",
+                outline: "border border-neutral-200 bg-white hover:bg-neutral-100",
+                ghost: "hover:bg-neutral-100"
+            },
+            size: {
+                default: "h-10 px-4 py-2",
+                sm: "h-9 px-3",
+                lg: "h-11 px-8"
+            }
+        },
+        defaultVariants: { variant: "default", size: "default" }
+    }
+);
+
+export interface ButtonProps
+    extends React.ButtonHTMLAttributes<HTMLButtonElement>,
+        VariantProps<typeof buttonVariants> {
+    asChild?: boolean;
+}
+
+export const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(
+    ({ className, variant, size, asChild = false, ...props }, ref) => {
+        const Comp = asChild ? Slot : "button";
+        return <Comp className={cn(buttonVariants({ variant, size, className }))} ref={ref} {...props} />;
+    }
+);
+Button.displayName = "Button";
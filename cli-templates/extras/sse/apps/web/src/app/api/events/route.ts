@@ -0,0 +1,48 @@
+import { subscribe } from "@/lib/events";
+
+// A long-lived stream: never prerender or cache it
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+
+            send("retry: 3000\n\n");
+            const unsubscribe = subscribe(({ type, payload }) => {
+                send(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`);
+            });
+            // Comment lines keep proxies from closing an idle connection
+            const heartbeat = setInterval(() => send(": ping\n\n"), 25_000);
+
+            cleanup = () => {
+                clearInterval(heartbeat);
+                unsubscribe();
+            };
+            req.signal.addEventListener("abort", () => {
+                cleanup();
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by the runtime
+                }
+            });
+        },
+        cancel() {
+            cleanup();
+        }
+    });
+
+    return new Response(stream, {
+        headers: {
+            "content-type": "text/event-stream",
+            "cache-control": "no-cache, no-transform",
+            connection: "keep-alive",
+            // Disables response buffering in nginx-based proxies
+            "x-accel-buffering": "no"
+        }
+    });
+}
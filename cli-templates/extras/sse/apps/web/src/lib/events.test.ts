@@ -0,0 +1,15 @@
+import { describe, it, expect } from "bun:test";
+import { publish, subscribe, type RealtimeEvent } from "./events";
+
+describe("Realtime events", () => {
+    it("should deliver published events to subscribers", () => {
+        const received: RealtimeEvent[] = [];
+        const unsubscribe = subscribe((event) => received.push(event));
+
+        publish({ type: "todo:created", payload: { id: 1 } });
+        unsubscribe();
+        publish({ type: "todo:created", payload: { id: 2 } });
+
+        expect(received).toEqual([{ type: "todo:created", payload: { id: 1 } }]);
+    });
+});
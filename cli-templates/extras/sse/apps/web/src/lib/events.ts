@@ -0,0 +1,23 @@
+/**
+ * In-process event broadcaster behind `GET /api/events`. Every open EventSource connection
+ * subscribes here, so events reach the clients of this server instance only - run a single
+ * instance or move to the WebSocket service when scaling out.
+ */
+
+export type RealtimeEvent = { type: "todo:created"; payload: unknown };
+
+type Listener = (event: RealtimeEvent) => void;
+
+// Kept on globalThis so route handlers bundled separately (and hot reloads) share one set
+const globalForEvents = globalThis as unknown as { realtimeListeners?: Set<Listener> };
+const listeners = (globalForEvents.realtimeListeners ??= new Set());
+
+export function publish(event: RealtimeEvent) {
+    for (const listener of listeners) listener(event);
+}
+
+/** Registers a listener and returns the function that removes it */
+export function subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
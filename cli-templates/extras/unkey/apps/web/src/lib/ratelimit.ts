@@ -0,0 +1,15 @@
+import { Ratelimit } from "@unkey/ratelimit";
+
+const limiter = new Ratelimit({
+    rootKey: process.env.UNKEY_ROOT_KEY!,
+    namespace: "api",
+    limit: 10,
+    duration: "10s"
+});
+
+/** Resolves to false when the request should be rejected with 429 */
+export async function rateLimit(req: Request): Promise<boolean> {
+    const ip = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ?? "anonymous";
+    const { success } = await limiter.limit(ip);
+    return success;
+}
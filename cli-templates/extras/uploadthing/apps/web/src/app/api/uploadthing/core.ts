@@ -0,0 +1,11 @@
+import { createUploadthing, type FileRouter } from "uploadthing/next";
+
+const f = createUploadthing();
+
+export const uploadRouter = {
+    fileUploader: f({ image: { maxFileSize: "4MB" }, pdf: { maxFileSize: "8MB" } }).onUploadComplete(({ file }) => {
+        return { url: file.ufsUrl };
+    })
+} satisfies FileRouter;
+
+export type UploadRouter = typeof uploadRouter;
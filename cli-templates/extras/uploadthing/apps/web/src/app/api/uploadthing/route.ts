@@ -0,0 +1,4 @@
+import { createRouteHandler } from "uploadthing/next";
+import { uploadRouter } from "./core";
+
+export const { GET, POST } = createRouteHandler({ router: uploadRouter });
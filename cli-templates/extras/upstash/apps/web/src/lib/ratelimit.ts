@@ -0,0 +1,15 @@
+import { Ratelimit } from "@upstash/ratelimit";
+import { Redis } from "@upstash/redis";
+
+const ratelimit = new Ratelimit({
+    redis: Redis.fromEnv(),
+    limiter: Ratelimit.fixedWindow(10, "10 s"),
+    prefix: "ratelimit"
+});
+
+/** Resolves to false when the request should be rejected with 429 */
+export async function rateLimit(req: Request): Promise<boolean> {
+    const ip = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ?? "anonymous";
+    const { success } = await ratelimit.limit(ip);
+    return success;
+}
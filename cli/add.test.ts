@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test";
+import { withFeature } from "./add";
+import { DEFAULT_CONFIG, type ProjectConfig } from "./config";
+import { withoutFeature } from "./remove";
+
+const config: ProjectConfig = { ...DEFAULT_CONFIG, name: "demo" };
+
+describe("withFeature", () => {
+    it("turns the feature's option on", () => {
+        expect(withFeature({ ...config, realtime: "none" }, "websocket").realtime).toBe("websocket");
+        expect(withFeature({ ...config, cicd: false }, "ci").cicd).toBe(true);
+    });
+
+    it("rejects a reverse proxy in front of a deployment platform", () => {
+        const kubernetes: ProjectConfig = { ...config, deployment: "kubernetes" };
+
+        expect(() => withFeature(kubernetes, "caddy")).toThrow(
+            'Proxy "caddy" fronts a self-hosted production stack and requires deployment "none"'
+        );
+        expect(() => withFeature(config, "traefik")).toThrow('Proxy "traefik" fronts a self-hosted production stack');
+        expect(withFeature({ ...config, deployment: "none" }, "caddy").proxy).toBe("caddy");
+    });
+
+    it("rejects a deployment that conflicts with Docker or the proxy", () => {
+        const selfHosted: ProjectConfig = { ...config, deployment: "none", proxy: "caddy" };
+
+        expect(() => withFeature(selfHosted, "kubernetes")).toThrow(
+            'Proxy "caddy" fronts a self-hosted production stack'
+        );
+        expect(() => withFeature({ ...config, deployment: "none", docker: false }, "kubernetes")).toThrow(
+            'Deployment "kubernetes" requires Docker'
+        );
+        expect(() => withFeature({ ...config, deployment: "vercel", docker: false }, "docker")).toThrow(
+            'Deployment "vercel" builds without Docker'
+        );
+    });
+
+    it("still changes other options of a project that breaks a rule already", () => {
+        const legacy: ProjectConfig = { ...config, deployment: "vercel", docker: true, realtime: "none" };
+
+        expect(withFeature(legacy, "sse").realtime).toBe("sse");
+    });
+});
+
+describe("withoutFeature", () => {
+    it("keeps Docker while Kubernetes or a reverse proxy runs its images", () => {
+        expect(() => withoutFeature({ ...config, deployment: "kubernetes" }, "docker")).toThrow(
+            'Deployment "kubernetes" requires Docker'
+        );
+        expect(() => withoutFeature({ ...config, deployment: "none", proxy: "traefik" }, "docker")).toThrow(
+            'Proxy "traefik" requires Docker'
+        );
+        expect(withoutFeature(config, "docker").docker).toBe(false);
+    });
+});
@@ -0,0 +1,74 @@
+import { CHOICES, validateDeployment, type ProjectConfig } from "./config";
+import { FEATURES } from "./features";
+
+/** Options `add` can turn on; each of their values is a feature name */
+export const ADDABLE_OPTIONS = [
+    "auth",
+    "storage",
+    "analytics",
+    "ratelimit",
+    "realtime",
+    "styling",
+    "deployment",
+    "proxy"
+] as const;
+
+/** Feature names of the boolean options */
+export const ADDABLE_TOGGLES: Record<string, "docker" | "cicd"> = { docker: "docker", ci: "cicd", cicd: "cicd" };
+
+export const ADD_USAGE = `Usage: bun run add <feature> [options]
+
+Features:
+${ADDABLE_OPTIONS.map((option) => `  ${option.padEnd(12)}${CHOICES[option].filter((value) => value !== "none").join(" | ")}`).join("\n")}
+  tooling     docker | ci
+
+Options:
+  -C, --cwd <dir>   Project to add the feature to (default: the current directory)
+      --dry-run     Show the changes without writing them
+  -y, --yes         Apply the changes without asking
+  -h, --help        Show this help`;
+
+/** Display name of a feature, taken from its module */
+export function featureLabel(feature: string): string {
+    return FEATURES.find((module) => module.id === (ADDABLE_TOGGLES[feature] ?? feature))?.label ?? feature;
+}
+
+/**
+ * Returns the config of the project with `feature` added. Throws when the feature is
+ * unknown, already there, or would replace another choice for the same option.
+ */
+export function withFeature(config: ProjectConfig, feature: string): ProjectConfig {
+    const toggle = ADDABLE_TOGGLES[feature];
+    if (toggle) {
+        if (config[toggle]) throw new Error(`${featureLabel(feature)} is already part of this project`);
+        return assertDeployment(config, { ...config, [toggle]: true });
+    }
+
+    const option = ADDABLE_OPTIONS.find(
+        (key) => feature !== "none" && (CHOICES[key] as readonly string[]).includes(feature)
+    );
+    if (!option) {
+        throw new Error(`Unknown feature "${feature}". Run with --help to see the features that can be added.`);
+    }
+
+    const current = config[option];
+    if (current === feature) throw new Error(`${featureLabel(feature)} is already part of this project`);
+    // shadcn/ui builds on Tailwind, so it is the one choice that can replace another
+    if (current !== "none" && !(option === "styling" && current === "tailwind")) {
+        throw new Error(
+            `This project already uses ${featureLabel(current)} for ${option}; it cannot be replaced by ${featureLabel(feature)}`
+        );
+    }
+    return assertDeployment(config, { ...config, [option]: feature });
+}
+
+/**
+ * Returns the `next` config of the project, throwing when the change to it breaks a rule
+ * `create-repo` enforces between deployment, Docker and proxy, e.g. no reverse proxy in
+ * front of Kubernetes. A project that already breaks one can still change other options.
+ */
+export function assertDeployment(config: ProjectConfig, next: ProjectConfig): ProjectConfig {
+    const error = validateDeployment(next);
+    if (error && error !== validateDeployment(config)) throw new Error(error);
+    return next;
+}
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { withFeature } from "./add";
+import { applyChanges, planChanges } from "./apply";
+import { DEFAULT_CONFIG, type ProjectConfig } from "./config";
+import { generateProject } from "./generate";
+import { hashContent, type Manifest } from "./manifest";
+import { withoutFeature } from "./remove";
+import { createSecrets } from "./secrets";
+import { VirtualFs } from "./vfs";
+
+const roots: string[] = [];
+
+afterEach(async () => {
+    await Promise.all(roots.splice(0).map((root) => fs.remove(root)));
+});
+
+async function tempDir(): Promise<string> {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "afc-apply-"));
+    roots.push(root);
+    return root;
+}
+
+/** Every file below `root` by its forward-slash path */
+async function readTree(root: string, dir = ""): Promise<Map<string, string>> {
+    const files = new Map<string, string>();
+    for (const entry of await fs.readdir(path.join(root, dir), { withFileTypes: true })) {
+        const file = path.posix.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            for (const [nested, content] of await readTree(root, file)) files.set(nested, content);
+        } else {
+            files.set(file, await fs.readFile(path.join(root, file), "utf-8"));
+        }
+    }
+    return files;
+}
+
+function tree(files: Record<string, string>): VirtualFs {
+    const project = new VirtualFs();
+    for (const [file, content] of Object.entries(files)) project.write(file, content);
+    return project;
+}
+
+describe("planChanges and applyChanges", () => {
+    const config: ProjectConfig = { ...DEFAULT_CONFIG, name: "demo", analytics: "none" };
+
+    it("adds a feature and removes it again", async () => {
+        const root = await tempDir();
+        const secrets = createSecrets();
+        const base = await generateProject(config, secrets);
+        await base.flush(root);
+        const original = await readTree(root);
+
+        const next = withFeature(config, "websocket");
+        const added = await generateProject(next, secrets);
+        const additions = await planChanges(root, base, added);
+        expect(additions.filter((change) => change.kind === "conflict")).toEqual([]);
+        await applyChanges(root, additions);
+        const service = added.files().filter((file) => file.startsWith("apps/ws/"));
+        expect(service).toContain("apps/ws/package.json");
+        for (const file of service) {
+            expect(await fs.readFile(path.join(root, file), "utf-8")).toBe(added.read(file)!);
+        }
+
+        const removed = await generateProject(withoutFeature(next, "websocket"), secrets);
+        const removals = await planChanges(root, added, removed);
+        expect(removals.filter((change) => change.kind === "conflict")).toEqual([]);
+        await applyChanges(root, removals);
+        expect(await fs.pathExists(path.join(root, "apps/ws"))).toBe(false);
+        expect(await readTree(root)).toEqual(original);
+    });
+
+    it("reports a conflict instead of overwriting a file the user edited", async () => {
+        const root = await tempDir();
+        await fs.outputFile(path.join(root, "src/app.ts"), "const port = 4000;\n");
+        const before = tree({ "src/app.ts": "const port = 3000;\n" });
+        const after = tree({ "src/app.ts": "const port = 3001;\n" });
+
+        const changes = await planChanges(root, before, after);
+        expect(changes).toHaveLength(1);
+        expect(changes[0]).toMatchObject({ path: "src/app.ts", kind: "conflict", content: undefined });
+        expect(changes[0].patch).toContain("-const port = 3000;");
+        expect(changes[0].patch).toContain("+const port = 3001;");
+
+        await applyChanges(root, changes);
+        expect(await fs.readFile(path.join(root, "src/app.ts"), "utf-8")).toBe("const port = 4000;\n");
+    });
+
+    it("writes conflict markers when asked to", async () => {
+        const root = await tempDir();
+        await fs.outputFile(path.join(root, "src/app.ts"), "const port = 4000;\n");
+        const before = tree({ "src/app.ts": "const port = 3000;\n" });
+        const after = tree({ "src/app.ts": "const port = 3001;\n" });
+
+        const changes = await planChanges(root, before, after, { markers: "v2" });
+        await applyChanges(root, changes);
+        const content = await fs.readFile(path.join(root, "src/app.ts"), "utf-8");
+        expect(content).toContain("<<<<<<< current\nconst port = 4000;\n=======\nconst port = 3001;\n>>>>>>> v2");
+    });
+
+    it("replaces an edited file whose hash the manifest recorded", async () => {
+        const root = await tempDir();
+        await fs.outputFile(path.join(root, "src/app.ts"), "const port = 4000;\n");
+        const before = tree({ "src/app.ts": "const port = 3000;\n" });
+        const after = tree({ "src/app.ts": "const port = 3001;\n" });
+        const manifest: Manifest = {
+            version: "0.0.0",
+            config,
+            files: { "src/app.ts": hashContent("const port = 4000;\n") }
+        };
+
+        const changes = await planChanges(root, before, after, { manifest });
+        expect(changes).toEqual([{ path: "src/app.ts", kind: "update", content: "const port = 3001;\n" }]);
+    });
+
+    it("records the generated version of a merged file in the manifest", async () => {
+        const root = await tempDir();
+        await fs.outputFile(path.join(root, "src/app.ts"), "// mine\n\nconst port = 3000;\n");
+        const before = tree({ "afc.json": "{}\n", "src/app.ts": "\nconst port = 3000;\n" });
+        const after = tree({ "afc.json": '{\n  "version": "1.0.0"\n}\n', "src/app.ts": "\nconst port = 3001;\n" });
+
+        const changes = await planChanges(root, before, after);
+        expect(changes.map(({ path, kind }) => ({ path, kind }))).toEqual([
+            { path: "afc.json", kind: "create" },
+            { path: "src/app.ts", kind: "merge" }
+        ]);
+        expect(changes[1].content).toBe("// mine\n\nconst port = 3001;\n");
+        expect(JSON.parse(changes[0].content!).bases).toEqual({ "src/app.ts": "\nconst port = 3001;\n" });
+    });
+});
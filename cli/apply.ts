@@ -0,0 +1,266 @@
+import fs from "fs-extra";
+import path from "path";
+import { createTwoFilesPatch } from "diff";
+import { isMap, parseDocument, type Pair, type Scalar, type YAMLMap } from "yaml";
+import { hashContent, MANIFEST_FILE, type Manifest } from "./manifest";
+import { mergeThreeWay } from "./merge";
+import type { VirtualFs } from "./vfs";
+
+export interface FileChange {
+    path: string;
+    /** `merge` combines the change with the user's edits: key by key or line by line */
+    kind: "create" | "update" | "delete" | "merge" | "conflict";
+    /** New content for creates, updates and merges, and for conflicts written with markers */
+    content?: string;
+    /** Diff of the change a conflicting file did not get, for applying it by hand */
+    patch?: string;
+}
+
+const ENV_FILES = [".env", ".env.example"];
+
+export interface PlanOptions {
+    /** The project's manifest: files matching their recorded hash count as unedited */
+    manifest?: Manifest;
+    /** Write conflicting files with conflict markers, labelling the generated side with this */
+    markers?: string;
+}
+
+/**
+ * Plans how to bring a project on disk from one generated version (`before`) to another
+ * (`after`). Files still as generated are replaced, package.json, env and compose files are
+ * merged key by key and other files the user has edited are merged line by line. Where
+ * that conflicts, the file is left alone and reported (or written with conflict markers).
+ */
+export async function planChanges(
+    root: string,
+    before: VirtualFs,
+    after: VirtualFs,
+    { manifest, markers }: PlanOptions = {}
+): Promise<FileChange[]> {
+    const changes: FileChange[] = [];
+    const files = [...new Set([...before.files(), ...after.files()])].sort();
+
+    for (const file of files) {
+        const old = before.read(file);
+        const next = after.read(file);
+        if (old === next) continue;
+
+        const target = path.join(root, file);
+        const current = fs.existsSync(target) ? await fs.readFile(target, "utf-8") : undefined;
+
+        // The manifest is rewritten for the new version rather than merged
+        if (file === MANIFEST_FILE) {
+            if (next !== undefined && current !== next) {
+                changes.push({ path: file, kind: current === undefined ? "create" : "update", content: next });
+            }
+            continue;
+        }
+        if (current !== undefined && next !== undefined) {
+            const merged = merge(file, current, old, next);
+            if (merged !== undefined) {
+                if (merged !== current) changes.push({ path: file, kind: "merge", content: merged });
+                continue;
+            }
+        }
+        // .env is the developer's own copy of .env.example; it is only ever merged into
+        if (current === undefined && ENV_FILES.includes(file) && old !== undefined) continue;
+
+        if (current === next) continue;
+        if (current === old || (current !== undefined && manifest?.files[file] === hashContent(current))) {
+            changes.push(
+                next === undefined
+                    ? { path: file, kind: "delete" }
+                    : { path: file, kind: old === undefined ? "create" : "update", content: next }
+            );
+            continue;
+        }
+        let content: string | undefined;
+        if (old !== undefined && current !== undefined && next !== undefined) {
+            const merged = mergeThreeWay(old, current, next, { current: "current", incoming: markers ?? "generated" });
+            if (merged.conflicts === 0) {
+                changes.push({ path: file, kind: "merge", content: merged.content });
+                continue;
+            }
+            if (markers) content = merged.content;
+        }
+        changes.push({
+            path: file,
+            kind: "conflict",
+            content,
+            patch:
+                old === undefined
+                    ? createTwoFilesPatch(file, file, current ?? "", next ?? "", "current", "generated")
+                    : createTwoFilesPatch(file, file, old, next ?? "", "before", "after")
+        });
+    }
+
+    recordBases(changes, after, manifest);
+    return changes;
+}
+
+/**
+ * The manifest records the hashes of the generated files, but a file written with the
+ * user's edits merged in was never committed as generated, so git history cannot give the
+ * next change its base. The manifest keeps the generated content of such files instead,
+ * along with the bases it already had for files whose generated version did not change.
+ * Env and compose files are merged key by key without one, and .env would leak its secrets.
+ */
+function recordBases(changes: FileChange[], after: VirtualFs, manifest: Manifest | undefined) {
+    const change = changes.find((change) => change.path === MANIFEST_FILE);
+    if (change?.content === undefined) return;
+
+    const bases: Record<string, string> = {};
+    for (const [file, base] of Object.entries(manifest?.bases ?? {})) {
+        if (after.read(file) === base) bases[file] = base;
+    }
+    for (const { path: file, kind, content } of changes) {
+        const next = after.read(file);
+        if (next === undefined || ENV_FILES.includes(file) || file === "docker-compose.yml") continue;
+        if (kind === "conflict" || (kind === "merge" && content !== next)) bases[file] = next;
+    }
+    if (Object.keys(bases).length === 0) return;
+
+    const next: Manifest = JSON.parse(change.content);
+    change.content = JSON.stringify({ ...next, bases }, null, 2) + "\n";
+}
+
+export async function applyChanges(root: string, changes: FileChange[]) {
+    for (const change of changes) {
+        const target = path.join(root, change.path);
+        if (change.kind === "delete") {
+            await fs.remove(target);
+            // Directories the deleted files leave empty go as well
+            for (let dir = path.dirname(target); dir !== path.resolve(root); dir = path.dirname(dir)) {
+                if ((await fs.readdir(dir)).length > 0) break;
+                await fs.remove(dir);
+            }
+        } else if (change.content !== undefined) {
+            await fs.outputFile(target, change.content);
+        }
+    }
+}
+
+/** Merges files the user is expected to edit; undefined for every other file */
+function merge(file: string, current: string, before: string | undefined, after: string): string | undefined {
+    if (path.posix.basename(file) === "package.json" && before !== undefined) {
+        return mergePackageJson(current, before, after);
+    }
+    if (ENV_FILES.includes(file)) return mergeEnv(current, before ?? "", after);
+    if (file === "docker-compose.yml") return mergeCompose(current, before ?? "", after);
+}
+
+/**
+ * Applies the scripts and dependencies that changed between the generated versions,
+ * keeping every other field and entry of the user's package.json as it is.
+ */
+function mergePackageJson(current: string, before: string, after: string): string {
+    const pkg = JSON.parse(current);
+    const old = JSON.parse(before);
+    const next = JSON.parse(after);
+
+    for (const field of ["scripts", "dependencies", "devDependencies"]) {
+        const keys = new Set([...Object.keys(old[field] ?? {}), ...Object.keys(next[field] ?? {})]);
+        for (const key of keys) {
+            const from = old[field]?.[key];
+            const to = next[field]?.[key];
+            if (from === to) continue;
+            if (to !== undefined) {
+                pkg[field] = { ...pkg[field], [key]: to };
+            } else if (pkg[field]?.[key] === from) {
+                // Entries the user changed themselves are kept
+                delete pkg[field][key];
+            }
+        }
+        if (field !== "scripts" && pkg[field]) {
+            pkg[field] = Object.fromEntries(Object.entries(pkg[field]).sort(([a], [b]) => a.localeCompare(b)));
+        }
+    }
+
+    const indent = current.match(/^\{\n( +)/)?.[1].length ?? 2;
+    return JSON.stringify(pkg, null, indent) + "\n";
+}
+
+/** Variables of a generated env file, grouped under their `# title` comment */
+function envGroups(source: string): Map<string, { key: string; line: string }[]> {
+    const groups = new Map<string, { key: string; line: string }[]>();
+    let title = "";
+    for (const line of source.split("\n")) {
+        if (line.startsWith("# ")) title = line.slice(2);
+        const key = line.match(/^([A-Za-z_][A-Za-z0-9_]*)=/)?.[1];
+        if (key) (groups.get(title) ?? groups.set(title, []).get(title)!).push({ key, line });
+    }
+    return groups;
+}
+
+/**
+ * Adds the variables that are new in `after` to the user's env file (into their group
+ * when it already exists, otherwise as a new group at the end) and drops those `after`
+ * no longer has. Values the user has filled in are never touched.
+ */
+function mergeEnv(current: string, before: string, after: string): string {
+    const previous = envGroups(before);
+    const old = new Set([...previous.values()].flat().map(({ key }) => key));
+    const next = envGroups(after);
+    const dropped = new Set([...old].filter((key) => ![...next.values()].flat().some((entry) => entry.key === key)));
+
+    const lines = current
+        .replace(/\n$/, "")
+        .split("\n")
+        .filter((line) => !dropped.has(line.match(/^([A-Za-z_][A-Za-z0-9_]*)=/)?.[1] ?? ""));
+    const present = new Set(lines.map((line) => line.match(/^([A-Za-z_][A-Za-z0-9_]*)=/)?.[1]).filter(Boolean));
+
+    for (const [title, entries] of next) {
+        const missing = entries.filter(({ key }) => !old.has(key) && !present.has(key)).map(({ line }) => line);
+        if (missing.length === 0) continue;
+        const heading = lines.indexOf(`# ${title}`);
+        if (heading === -1) {
+            lines.push(...(lines.length > 0 ? [""] : []), `# ${title}`, ...missing);
+            continue;
+        }
+        let end = heading + 1;
+        while (end < lines.length && lines[end].trim() !== "") end++;
+        lines.splice(end, 0, ...missing);
+    }
+
+    // A generated group left without variables loses its heading as well
+    const cleaned = lines.filter(
+        (line, index) =>
+            !(line.startsWith("# ") && previous.has(line.slice(2)) && (lines[index + 1] ?? "").trim() === "")
+    );
+    return (
+        cleaned
+            .join("\n")
+            .replace(/\n{3,}/g, "\n\n")
+            .replace(/^\n+|\n+$/g, "") + "\n"
+    );
+}
+
+/**
+ * Adds the compose services that are new in `after` and removes those it no longer has,
+ * leaving the user's own services and edits in place.
+ */
+function mergeCompose(current: string, before: string, after: string): string {
+    const doc = parseDocument(current, { version: "1.1" });
+    const old = parseDocument(before, { version: "1.1" }).get("services");
+    const next = parseDocument(after, { version: "1.1" }).get("services", true);
+    const names = (map: unknown) => (isMap(map) ? map.items.map((pair) => String((pair.key as Scalar).value)) : []);
+
+    let services = doc.get("services", true) as YAMLMap | undefined;
+    if (!isMap(services)) {
+        doc.set("services", doc.createNode({}));
+        services = doc.get("services", true) as YAMLMap;
+    }
+
+    const existing = names(services);
+    for (const name of names(old)) {
+        if (!names(next).includes(name)) services.delete(name);
+    }
+    for (const pair of isMap(next) ? (next.items as Pair<Scalar, YAMLMap>[]) : []) {
+        const name = String(pair.key.value);
+        if (names(old).includes(name) || existing.includes(name)) continue;
+        if (services.items.length > 0) pair.key.spaceBefore = true;
+        services.items.push(pair);
+    }
+
+    return doc.toString({ indent: 2, flowCollectionPadding: false });
+}
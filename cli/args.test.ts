@@ -0,0 +1,98 @@
+import { describe, expect, it } from "bun:test";
+import { parseCliArgs, parseConfig, parseProjectCommandArgs } from "./args";
+
+describe("parseCliArgs", () => {
+    it("reads the name, choices and toggles into the preset", async () => {
+        const options = await parseCliArgs(["my-app", "--db", "mysql", "--pm", "pnpm", "--no-docker", "-y"]);
+
+        expect(options).toEqual({
+            yes: true,
+            dryRun: false,
+            help: false,
+            preset: { name: "my-app", database: "mysql", packageManager: "pnpm", docker: false }
+        });
+    });
+
+    it("marks a database URL as a hosted database", async () => {
+        const { preset } = await parseCliArgs(["--db", "postgres", "--database-url", "postgresql://u:p@host:5432/db"]);
+
+        expect(preset).toMatchObject({ databaseUrl: "postgresql://u:p@host:5432/db", hasHostedDb: true });
+    });
+
+    it("self-hosts behind a reverse proxy unless a deployment is given", async () => {
+        expect((await parseCliArgs(["--proxy", "caddy"])).preset).toEqual({ proxy: "caddy", deployment: "none" });
+        expect((await parseCliArgs(["--proxy", "none"])).preset).toEqual({ proxy: "none" });
+        await expect(parseCliArgs(["--proxy", "traefik", "--deployment", "railway"])).rejects.toThrow(
+            'Proxy "traefik" fronts a self-hosted production stack'
+        );
+    });
+
+    it("rejects unknown flags and extra arguments", async () => {
+        await expect(parseCliArgs(["--databse", "mysql"])).rejects.toThrow("Unknown option '--databse'");
+        await expect(parseCliArgs(["my-app", "other-app"])).rejects.toThrow("Unexpected argument: other-app");
+    });
+
+    it("rejects invalid values", async () => {
+        await expect(parseCliArgs(["--db", "oracle"])).rejects.toThrow(
+            '--db must be one of postgres, mysql, mariadb, mongodb, mssql, sqlite, none (got "oracle")'
+        );
+        await expect(parseCliArgs(["--deployment", "heroku"])).rejects.toThrow("--deployment must be one of");
+        await expect(parseCliArgs(["My App"])).rejects.toThrow('Invalid project name "My App"');
+        await expect(parseCliArgs(["--db", "postgres", "--database-url", "mysql://host/db"])).rejects.toThrow(
+            "Connection string must start with"
+        );
+    });
+
+    it("rejects conflicting options", async () => {
+        const conflicts: [string[], string][] = [
+            [["--docker", "--no-docker"], "--docker and --no-docker cannot be used together"],
+            [["--db", "none", "--orm", "drizzle"], 'ORM "drizzle" requires a database'],
+            [["--deployment", "kubernetes", "--no-docker"], 'Deployment "kubernetes" requires Docker'],
+            [["--deployment", "vercel", "--docker"], 'Deployment "vercel" builds without Docker'],
+            [["--proxy", "caddy", "--deployment", "coolify"], 'Proxy "caddy" fronts a self-hosted production stack'],
+            [["--proxy", "traefik", "--deployment", "none", "--no-docker"], 'Proxy "traefik" requires Docker'],
+            [["--database-url", "postgresql://u:p@host:5432/db"], "A database URL requires --db"],
+            [["--db", "sqlite", "--database-url", "file:./dev.db"], 'cannot be used with database "sqlite"']
+        ];
+        for (const [argv, message] of conflicts) {
+            await expect(parseCliArgs(argv)).rejects.toThrow(message);
+        }
+    });
+});
+
+describe("parseConfig", () => {
+    it("accepts the options of a config file", () => {
+        expect(parseConfig({ name: "my-app", database: "sqlite", cicd: false }, "afc.json")).toEqual({
+            name: "my-app",
+            database: "sqlite",
+            cicd: false
+        });
+    });
+
+    it("rejects unknown options and invalid values", () => {
+        expect(() => parseConfig([], "afc.json")).toThrow("afc.json must contain a JSON object");
+        expect(() => parseConfig({ databse: "mysql" }, "afc.json")).toThrow('afc.json: unknown option "databse"');
+        expect(() => parseConfig({ database: "oracle" }, "afc.json")).toThrow('afc.json: "database" must be one of');
+        expect(() => parseConfig({ docker: "yes" }, "afc.json")).toThrow('afc.json: "docker" must be true or false');
+        expect(() => parseConfig({ name: 1 }, "afc.json")).toThrow('afc.json: "name" must be a string');
+    });
+});
+
+describe("parseProjectCommandArgs", () => {
+    it("reads the feature and options", () => {
+        expect(parseProjectCommandArgs(["docker", "-C", "/tmp/app", "--dry-run", "--force"], 1)).toEqual({
+            args: ["docker"],
+            cwd: "/tmp/app",
+            yes: false,
+            dryRun: true,
+            force: true,
+            help: false
+        });
+    });
+
+    it("rejects unknown flags and extra arguments", () => {
+        expect(() => parseProjectCommandArgs(["docker", "--yes-please"], 1)).toThrow("Unknown option '--yes-please'");
+        expect(() => parseProjectCommandArgs(["docker", "ci"], 1)).toThrow("Unexpected argument: ci");
+        expect(() => parseProjectCommandArgs(["--db", "mysql"], 0)).toThrow("Unknown option '--db'");
+    });
+});
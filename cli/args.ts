@@ -0,0 +1,256 @@
+import fs from "fs-extra";
+import path from "path";
+import { parseArgs } from "node:util";
+import {
+    BOOLEAN_OPTIONS,
+    CHOICES,
+    isProjectName,
+    validateDatabaseUrl,
+    validateDeployment,
+    type ProjectConfig
+} from "./config";
+
+export interface CliOptions {
+    /** Skip every prompt that has no preset value and use its default instead */
+    yes: boolean;
+    /** Generate into memory and print a preview instead of writing the project */
+    dryRun: boolean;
+    help: boolean;
+    /** Answers given up-front through `--config` and flags; flags win over the config file */
+    preset: Partial<ProjectConfig>;
+}
+
+export const USAGE = `Usage: create-afc-stack [name] [options]
+
+Options:
+  -y, --yes                    Use defaults for every option not given
+  -c, --config <file>          Read options from a JSON file (e.g. afc.json)
+      --dry-run                Show the files that would be generated without writing them
+      --language <value>       ${CHOICES.language.join(" | ")}
+      --pm <value>             ${CHOICES.packageManager.join(" | ")}
+      --db <value>             ${CHOICES.database.join(" | ")}
+      --database-url <url>     Use a hosted database instead of a local container
+      --orm <value>            ${CHOICES.orm.join(" | ")}
+      --auth <value>           ${CHOICES.auth.join(" | ")}
+      --styling <value>        ${CHOICES.styling.join(" | ")}
+      --realtime <value>       ${CHOICES.realtime.join(" | ")}
+      --storage <value>        ${CHOICES.storage.join(" | ")}
+      --analytics <value>      ${CHOICES.analytics.join(" | ")}
+      --ratelimit <value>      ${CHOICES.ratelimit.join(" | ")}
+      --deployment <value>     ${CHOICES.deployment.join(" | ")}
+      --proxy <value>          ${CHOICES.proxy.join(" | ")} (self-hosted with Docker, implies --deployment none)
+      --[no-]monorepo          Use a Turborepo monorepo
+      --[no-]cicd              Include GitHub Actions workflows
+      --[no-]docker            Include Dockerfiles
+  -h, --help                   Show this help`;
+
+const FLAG_ALIASES: Record<string, keyof typeof CHOICES> = {
+    language: "language",
+    pm: "packageManager",
+    "package-manager": "packageManager",
+    db: "database",
+    database: "database",
+    orm: "orm",
+    auth: "auth",
+    styling: "styling",
+    realtime: "realtime",
+    storage: "storage",
+    analytics: "analytics",
+    ratelimit: "ratelimit",
+    deployment: "deployment",
+    proxy: "proxy"
+};
+
+const TOGGLES = ["monorepo", "cicd", "docker"] as const;
+
+export async function parseCliArgs(argv: string[]): Promise<CliOptions> {
+    const { values: parsed, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        strict: true,
+        options: {
+            yes: { type: "boolean", short: "y" },
+            help: { type: "boolean", short: "h" },
+            "dry-run": { type: "boolean" },
+            config: { type: "string", short: "c" },
+            "database-url": { type: "string" },
+            ...Object.fromEntries(Object.keys(FLAG_ALIASES).map((flag) => [flag, { type: "string" as const }])),
+            ...Object.fromEntries(
+                TOGGLES.flatMap((toggle) => [
+                    [toggle, { type: "boolean" as const }],
+                    [`no-${toggle}`, { type: "boolean" as const }]
+                ])
+            )
+        }
+    });
+
+    const values = parsed as Record<string, string | boolean | undefined>;
+
+    if (positionals.length > 1) {
+        throw new Error(`Unexpected argument: ${positionals[1]}`);
+    }
+
+    const preset: Partial<ProjectConfig> = values.config ? await loadConfigFile(values.config as string) : {};
+
+    if (positionals[0]) preset.name = positionals[0];
+
+    for (const [flag, key] of Object.entries(FLAG_ALIASES)) {
+        const value = values[flag];
+        if (typeof value === "string") {
+            assignChoice(preset, key, value, `--${flag}`);
+        }
+    }
+
+    for (const toggle of TOGGLES) {
+        if (values[toggle] && values[`no-${toggle}`]) {
+            throw new Error(`--${toggle} and --no-${toggle} cannot be used together`);
+        }
+        if (values[toggle]) preset[toggle] = true;
+        if (values[`no-${toggle}`]) preset[toggle] = false;
+    }
+
+    if (typeof values["database-url"] === "string") {
+        preset.databaseUrl = values["database-url"];
+    }
+
+    validatePreset(preset);
+
+    return { yes: Boolean(values.yes), dryRun: Boolean(values["dry-run"]), help: Boolean(values.help), preset };
+}
+
+export interface ProjectCommandOptions {
+    /** Positional arguments, e.g. the feature of `add` */
+    args: string[];
+    /** Root of the project the command works on */
+    cwd: string;
+    /** Apply changes without asking */
+    yes: boolean;
+    /** Print the changes instead of writing them */
+    dryRun: boolean;
+    /** Apply the changes even where edited files conflict with them */
+    force: boolean;
+    help: boolean;
+}
+
+/**
+ * Parses the arguments of the commands that change an existing project (`add`, `upgrade`).
+ */
+export function parseProjectCommandArgs(argv: string[], maxArgs: number): ProjectCommandOptions {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        strict: true,
+        options: {
+            cwd: { type: "string", short: "C" },
+            yes: { type: "boolean", short: "y" },
+            "dry-run": { type: "boolean" },
+            force: { type: "boolean" },
+            help: { type: "boolean", short: "h" }
+        }
+    });
+
+    if (positionals.length > maxArgs) {
+        throw new Error(`Unexpected argument: ${positionals[maxArgs]}`);
+    }
+
+    return {
+        args: positionals,
+        cwd: values.cwd ?? process.cwd(),
+        yes: Boolean(values.yes),
+        dryRun: Boolean(values["dry-run"]),
+        force: Boolean(values.force),
+        help: Boolean(values.help)
+    };
+}
+
+/** Reads a JSON file of `ProjectConfig` answers, or the answers recorded in a project's afc.json */
+async function loadConfigFile(file: string): Promise<Partial<ProjectConfig>> {
+    const filePath = path.resolve(file);
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Config file not found: ${file}`);
+    }
+
+    let raw: unknown;
+    try {
+        raw = await fs.readJSON(filePath);
+    } catch (error) {
+        throw new Error(`Could not parse ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    // A project's afc.json manifest keeps its options under `config`
+    if (isObject(raw) && isObject(raw.config) && isObject(raw.files)) raw = raw.config;
+    return parseConfig(raw, file);
+}
+
+/**
+ * Validates `ProjectConfig` answers read from `file`. Unknown keys and invalid values are
+ * rejected rather than ignored so typos in CI configs fail loudly.
+ */
+export function parseConfig(raw: unknown, file: string): Partial<ProjectConfig> {
+    if (!isObject(raw)) {
+        throw new Error(`${file} must contain a JSON object`);
+    }
+
+    const preset: Partial<ProjectConfig> = {};
+    for (const [key, value] of Object.entries(raw)) {
+        if (key === "name" || key === "databaseUrl") {
+            if (typeof value !== "string") throw new Error(`${file}: "${key}" must be a string`);
+            preset[key] = value;
+        } else if (key in CHOICES) {
+            if (typeof value !== "string") throw new Error(`${file}: "${key}" must be a string`);
+            assignChoice(preset, key as keyof typeof CHOICES, value, `${file}: "${key}"`);
+        } else if ((BOOLEAN_OPTIONS as readonly string[]).includes(key)) {
+            if (typeof value !== "boolean") throw new Error(`${file}: "${key}" must be true or false`);
+            preset[key as (typeof BOOLEAN_OPTIONS)[number]] = value;
+        } else {
+            throw new Error(`${file}: unknown option "${key}"`);
+        }
+    }
+    return preset;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function assignChoice(preset: Partial<ProjectConfig>, key: keyof typeof CHOICES, value: string, source: string) {
+    const choices: readonly string[] = CHOICES[key];
+    if (!choices.includes(value)) {
+        throw new Error(`${source} must be one of ${choices.join(", ")} (got "${value}")`);
+    }
+    (preset as Record<string, unknown>)[key] = value;
+}
+
+/**
+ * Checks combinations the prompts would never produce, e.g. an ORM without a database.
+ */
+function validatePreset(preset: Partial<ProjectConfig>) {
+    if (preset.name !== undefined && !isProjectName(preset.name)) {
+        throw new Error(`Invalid project name "${preset.name}": only lowercase letters, numbers, and hyphens allowed`);
+    }
+
+    if (preset.database === "none" && preset.orm && preset.orm !== "none") {
+        throw new Error(`ORM "${preset.orm}" requires a database`);
+    }
+
+    // A reverse proxy is what self-hosting deploys with, so it stands in for `--deployment none`
+    if (preset.proxy && preset.proxy !== "none" && preset.deployment === undefined) {
+        preset.deployment = "none";
+    }
+    const deploymentError = validateDeployment(preset);
+    if (deploymentError) throw new Error(deploymentError);
+
+    if (preset.databaseUrl !== undefined) {
+        if (!preset.database) {
+            throw new Error("A database URL requires --db");
+        }
+        if (preset.database === "none" || preset.database === "sqlite") {
+            throw new Error(`A hosted database URL cannot be used with database "${preset.database}"`);
+        }
+        const error = validateDatabaseUrl(preset.database, preset.databaseUrl);
+        if (error) throw new Error(error);
+        if (preset.hasHostedDb === false) {
+            throw new Error("hasHostedDb is false but a database URL was given");
+        }
+        preset.hasHostedDb = true;
+    }
+}
@@ -0,0 +1,130 @@
+export const LANGUAGES = ["typescript", "javascript"] as const;
+export const PACKAGE_MANAGERS = ["bun", "pnpm", "npm"] as const;
+export const DATABASES = ["postgres", "mysql", "mariadb", "mongodb", "mssql", "sqlite", "none"] as const;
+export const ORMS = ["drizzle", "prisma", "none"] as const;
+export const AUTH_PROVIDERS = ["nextauth", "lucia", "clerk", "none"] as const;
+export const STYLINGS = ["tailwind", "shadcn", "none"] as const;
+export const REALTIME_OPTIONS = ["websocket", "sse", "none"] as const;
+export const STORAGE_OPTIONS = ["minio", "uploadthing", "s3", "none"] as const;
+export const ANALYTICS_PROVIDERS = ["posthog", "plausible", "umami", "none"] as const;
+export const RATELIMIT_PROVIDERS = ["arcjet", "upstash", "unkey", "none"] as const;
+export const DEPLOYMENT_TARGETS = ["coolify", "vercel", "railway", "kubernetes", "none"] as const;
+export const PROXIES = ["caddy", "traefik", "none"] as const;
+
+export interface ProjectConfig {
+    name: string;
+    language: (typeof LANGUAGES)[number];
+    orm: (typeof ORMS)[number];
+    auth: (typeof AUTH_PROVIDERS)[number];
+    realtime: (typeof REALTIME_OPTIONS)[number];
+    storage: (typeof STORAGE_OPTIONS)[number];
+    analytics: (typeof ANALYTICS_PROVIDERS)[number];
+    ratelimit: (typeof RATELIMIT_PROVIDERS)[number];
+    styling: (typeof STYLINGS)[number];
+    database: (typeof DATABASES)[number];
+    deployment: (typeof DEPLOYMENT_TARGETS)[number];
+    /** Reverse proxy of the self-hosted production compose, see `reverseProxy` */
+    proxy: (typeof PROXIES)[number];
+    packageManager: (typeof PACKAGE_MANAGERS)[number];
+    cicd: boolean;
+    docker: boolean;
+    monorepo: boolean;
+    hasHostedDb?: boolean;
+    databaseUrl?: string;
+}
+
+/**
+ * Allowed values for every union-typed option, used to validate flags and config files.
+ */
+export const CHOICES = {
+    language: LANGUAGES,
+    packageManager: PACKAGE_MANAGERS,
+    database: DATABASES,
+    orm: ORMS,
+    auth: AUTH_PROVIDERS,
+    styling: STYLINGS,
+    realtime: REALTIME_OPTIONS,
+    storage: STORAGE_OPTIONS,
+    analytics: ANALYTICS_PROVIDERS,
+    ratelimit: RATELIMIT_PROVIDERS,
+    deployment: DEPLOYMENT_TARGETS,
+    proxy: PROXIES
+} as const;
+
+export const BOOLEAN_OPTIONS = ["cicd", "docker", "monorepo", "hasHostedDb"] as const;
+
+/**
+ * Answers used when a prompt is skipped with `--yes`. These are also the prompts' initial values.
+ */
+export const DEFAULT_CONFIG: Omit<ProjectConfig, "name" | "databaseUrl"> = {
+    language: "typescript",
+    packageManager: "bun",
+    monorepo: true,
+    database: "postgres",
+    orm: "drizzle",
+    hasHostedDb: false,
+    auth: "nextauth",
+    styling: "tailwind",
+    realtime: "none",
+    storage: "minio",
+    analytics: "posthog",
+    ratelimit: "arcjet",
+    deployment: "coolify",
+    proxy: "none",
+    cicd: true,
+    docker: true
+};
+
+export const DATABASE_LABELS: Record<Exclude<ProjectConfig["database"], "none">, string> = {
+    postgres: "PostgreSQL",
+    mysql: "MySQL",
+    mariadb: "MariaDB",
+    mongodb: "MongoDB",
+    mssql: "SQL Server",
+    sqlite: "SQLite"
+};
+
+export const DATABASE_URL_PREFIXES: Record<Exclude<ProjectConfig["database"], "none" | "sqlite">, string> = {
+    postgres: "postgres",
+    mysql: "mysql",
+    mariadb: "mysql",
+    mongodb: "mongodb",
+    mssql: "Server="
+};
+
+export function isProjectName(value: string): boolean {
+    return /^[a-z0-9-]+$/.test(value);
+}
+
+/**
+ * Returns an error message when `url` cannot be a connection string for `database`.
+ */
+export function validateDatabaseUrl(database: ProjectConfig["database"], url: string): string | undefined {
+    if (!url) return "Connection string is required";
+    if (database === "none" || database === "sqlite") return undefined;
+    const prefix = DATABASE_URL_PREFIXES[database];
+    if (!url.startsWith(prefix)) {
+        return `Connection string must start with ${prefix}`;
+    }
+}
+
+/**
+ * Returns an error message when the deployment, Docker and reverse proxy options of
+ * `config` cannot go together, e.g. Kubernetes without the Dockerfiles it runs.
+ */
+export function validateDeployment(config: Partial<ProjectConfig>): string | undefined {
+    if (config.deployment === "kubernetes" && config.docker === false) {
+        return 'Deployment "kubernetes" requires Docker: the manifests run the images of the Dockerfiles';
+    }
+    if (config.deployment === "vercel" && config.docker === true) {
+        return 'Deployment "vercel" builds without Docker and cannot be used with the Dockerfiles';
+    }
+    if (config.proxy && config.proxy !== "none") {
+        if (config.deployment !== "none") {
+            return `Proxy "${config.proxy}" fronts a self-hosted production stack and requires deployment "none"`;
+        }
+        if (config.docker === false) {
+            return `Proxy "${config.proxy}" requires Docker: it serves the images of the Dockerfiles`;
+        }
+    }
+}
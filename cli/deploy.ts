@@ -0,0 +1,381 @@
+import { Document, isSeq, Scalar, type Pair, type YAMLMap } from "yaml";
+import { hasMigrateTarget, LOCKFILES } from "./docker";
+import type { ProjectConfig } from "./config";
+import type { FeatureContext, FeatureModule } from "./features";
+import { generateKubernetesManifests } from "./kubernetes";
+import { layoutPath } from "./layout";
+import { SECRET_PLACEHOLDER } from "./secrets";
+import type { VirtualFs } from "./vfs";
+
+/** Where the Dockerfile of the WebSocket service is, next to its sources */
+function wsDockerfile({ config }: FeatureContext): string {
+    return config.monorepo ? "apps/ws/Dockerfile" : "ws/Dockerfile";
+}
+
+/** The command that applies the committed migrations, if the project has any to apply */
+function migrateCommand({ config, pm }: FeatureContext): string | undefined {
+    if (!hasMigrateTarget(config)) return undefined;
+    return `${pm} run ${config.orm === "prisma" ? "db:deploy" : "db:migrate"}`;
+}
+
+function installCommand({ config, pm }: FeatureContext): string {
+    return config.packageManager === "npm" ? "npm ci" : `${pm} install --frozen-lockfile`;
+}
+
+function execCommand({ config }: FeatureContext): string {
+    return config.packageManager === "bun" ? "bunx" : config.packageManager === "pnpm" ? "pnpm exec" : "npx";
+}
+
+/** The reverse proxy in front of the self-hosted production compose, if the project runs one */
+export function reverseProxy(config: ProjectConfig): "caddy" | "traefik" | undefined {
+    return config.docker && config.deployment === "none" && config.proxy !== "none" ? config.proxy : undefined;
+}
+
+/** Where the production stack gets its passwords and public URLs from */
+interface ProductionHost {
+    secret: (name: string) => string;
+    /** Replaces `http://localhost:3000` */
+    webUrl: string;
+    /** Replaces `ws://localhost:4001` */
+    wsUrl: string;
+}
+
+/**
+ * Coolify fills in its magic variables: `SERVICE_FQDN_*` assigns the public domains,
+ * `SERVICE_URL_*` and `SERVICE_FQDN_*` reference them and `SERVICE_PASSWORD_64_*` draws the passwords.
+ */
+const COOLIFY: ProductionHost = {
+    // The whole name keeps MYSQL_PASSWORD and MYSQL_ROOT_PASSWORD apart; underscores would end Coolify's identifier
+    secret: (name) => `\${SERVICE_PASSWORD_64_${name.replace(/_PASSWORD$/, "").replace(/_/g, "")}}`,
+    webUrl: "${SERVICE_URL_WEB}",
+    wsUrl: "wss://${SERVICE_FQDN_WS}"
+};
+
+/** Self-hosted, the env file names the domain and the passwords; the proxy serves both apps on the domain */
+const SELF_HOSTED: ProductionHost = {
+    secret: (name) => `\${${name}:?}`,
+    webUrl: "https://${DOMAIN:?}",
+    wsUrl: "wss://${DOMAIN:?}"
+};
+
+/** Traefik labels that route `rule` on the HTTPS entrypoint to `port` of the labelled service */
+function traefikLabels(router: string, rule: string, port: number): string[] {
+    return [
+        "traefik.enable=true",
+        `traefik.http.routers.${router}.rule=${rule}`,
+        `traefik.http.routers.${router}.entrypoints=https`,
+        `traefik.http.routers.${router}.tls.certresolver=letsencrypt`,
+        `traefik.http.services.${router}.loadbalancer.server.port=${port}`
+    ];
+}
+
+/** The reverse proxy service; both terminate TLS with a Let's Encrypt certificate of `DOMAIN` */
+function proxyService(proxy: "caddy" | "traefik", websocket: boolean): Record<string, unknown> {
+    if (proxy === "caddy") {
+        return {
+            image: "caddy:2-alpine",
+            ports: ["80:80", "443:443", "443:443/udp"],
+            environment: ["DOMAIN=${DOMAIN:?}"],
+            volumes: ["./Caddyfile:/etc/caddy/Caddyfile:ro", "caddy-data:/data", "caddy-config:/config"],
+            depends_on: ["web", ...(websocket ? ["ws"] : [])],
+            restart: "unless-stopped"
+        };
+    }
+    return {
+        image: "traefik:v3.1",
+        // Only the services labelled traefik.enable are routed; HTTP redirects to HTTPS
+        command: [
+            "--providers.docker=true",
+            "--providers.docker.exposedbydefault=false",
+            "--entrypoints.http.address=:80",
+            "--entrypoints.http.http.redirections.entrypoint.to=https",
+            "--entrypoints.http.http.redirections.entrypoint.scheme=https",
+            "--entrypoints.https.address=:443",
+            "--certificatesresolvers.letsencrypt.acme.email=${ACME_EMAIL:?}",
+            "--certificatesresolvers.letsencrypt.acme.storage=/letsencrypt/acme.json",
+            "--certificatesresolvers.letsencrypt.acme.tlschallenge=true"
+        ],
+        ports: ["80:80", "443:443"],
+        volumes: ["/var/run/docker.sock:/var/run/docker.sock:ro", "traefik-data:/letsencrypt"],
+        restart: "unless-stopped"
+    };
+}
+
+/**
+ * `docker-compose.prod.yml`: the web app and WebSocket images built from their Dockerfiles next to
+ * the database and MinIO containers. For Coolify it is a "Docker Compose" resource that routes a
+ * domain per service; self-hosted, a Caddy or Traefik container terminates TLS and serves the web
+ * app and, under `/ws`, the WebSocket service on one domain.
+ */
+function productionCompose(features: FeatureModule[], ctx: FeatureContext): string {
+    const { config } = ctx;
+    const proxy = reverseProxy(config);
+    const host = proxy ? SELF_HOSTED : COOLIFY;
+    const prod: FeatureContext = { ...ctx, secret: host.secret };
+    const backing = features.flatMap((feature) => feature.services?.(prod) ?? []).filter((service) => !service.devOnly);
+    const websocket = config.realtime === "websocket";
+
+    // localhost ports of .env point at the containers on the compose network instead
+    const hosts = new Map<string, string>();
+    for (const { name, service } of backing) {
+        for (const port of service.ports ?? []) {
+            const [published, target] = port.split(":");
+            hosts.set(published, `${name}|${target}`);
+        }
+    }
+    if (websocket) hosts.set("4001", "ws|4001");
+
+    const wire = (key: string, value: string): string => {
+        if (key === "DATABASE_URL" && config.hasHostedDb) return `\${${key}:?}`;
+        if (value === "") return `\${${key}:-}`;
+        // Placeholders such as API keys have no production value to derive; Coolify or the env file provides them
+        if (value.includes(SECRET_PLACEHOLDER)) return `\${${key}:?}`;
+        const wired = value.replace("http://localhost:3000", host.webUrl).replace("ws://localhost:4001", host.wsUrl);
+        // Browsers cannot reach the other containers, e.g. a local Umami; the public URL has to be provided
+        if (key.startsWith("NEXT_PUBLIC_") && wired.includes("localhost")) return `\${${key}:?}`;
+        return wired.replace(/localhost([:,])(\d+)/g, (match, separator: string, port: string) => {
+            const [name, target] = hosts.get(port)?.split("|") ?? [];
+            return name ? `${name}${separator}${target}` : match;
+        });
+    };
+
+    const vars = features.flatMap((feature) => feature.env?.(prod) ?? []).flatMap((group) => group.vars);
+    const args = Object.fromEntries(
+        vars.filter(({ key }) => key.startsWith("NEXT_PUBLIC_")).map(({ key, value }) => [key, wire(key, value)])
+    );
+    const databaseUrl = vars.find(({ key }) => key === "DATABASE_URL");
+    const migrate = hasMigrateTarget(config) && databaseUrl !== undefined;
+    const healthy = backing.filter(({ service }) => service.healthcheck).map(({ name }) => name);
+    const database = healthy.filter((name) => name === config.database);
+
+    const services: Record<string, unknown> = {
+        ...(proxy ? { [proxy]: proxyService(proxy, websocket) } : {}),
+        web: {
+            build: {
+                context: ".",
+                dockerfile: layoutPath("apps/web/Dockerfile", config),
+                ...(Object.keys(args).length > 0 ? { args } : {})
+            },
+            environment: [
+                ...(proxy ? [] : ["SERVICE_FQDN_WEB_3000"]),
+                ...vars.map(({ key, value }) => `${key}=${wire(key, value)}`)
+            ],
+            ...(proxy === "traefik" ? { labels: traefikLabels("web", "Host(`${DOMAIN:?}`)", 3000) } : {}),
+            ...(healthy.length > 0 || migrate
+                ? {
+                      depends_on: {
+                          ...Object.fromEntries(healthy.map((name) => [name, { condition: "service_healthy" }])),
+                          ...(migrate ? { migrate: { condition: "service_completed_successfully" } } : {})
+                      }
+                  }
+                : {}),
+            restart: "unless-stopped"
+        },
+        ...(migrate
+            ? {
+                  migrate: {
+                      build: { context: ".", dockerfile: layoutPath("apps/web/Dockerfile", config), target: "migrate" },
+                      environment: [`DATABASE_URL=${wire("DATABASE_URL", databaseUrl.value)}`],
+                      ...(database.length > 0
+                          ? {
+                                depends_on: Object.fromEntries(
+                                    database.map((name) => [name, { condition: "service_healthy" }])
+                                )
+                            }
+                          : {}),
+                      restart: "no",
+                      // Exits once the migrations are applied, which Coolify would report as unhealthy
+                      ...(proxy ? {} : { exclude_from_hc: true })
+                  }
+              }
+            : {}),
+        ...(websocket
+            ? {
+                  ws: {
+                      build: { context: ".", dockerfile: wsDockerfile(ctx) },
+                      environment: [...(proxy ? [] : ["SERVICE_FQDN_WS_4001"]), "PORT=4001"],
+                      // The longer rule wins over the web app's for /ws
+                      ...(proxy === "traefik"
+                          ? { labels: traefikLabels("ws", "Host(`${DOMAIN:?}`) && PathPrefix(`/ws`)", 4001) }
+                          : {}),
+                      restart: "unless-stopped"
+                  }
+              }
+            : {})
+    };
+
+    // The containers keep their data in named volumes and are only reachable on the compose network
+    const volumes: Record<string, null> = {};
+    for (const { name, service } of backing) {
+        const { ports: _ports, ...rest } = service;
+        services[name] = {
+            ...rest,
+            ...(service.volumes
+                ? {
+                      volumes: service.volumes.map((mount) => {
+                          volumes[`${name}-data`] = null;
+                          return `${name}-data:${mount.slice(mount.indexOf(":") + 1)}`;
+                      })
+                  }
+                : {}),
+            restart: "unless-stopped"
+        };
+    }
+    if (proxy === "caddy") Object.assign(volumes, { "caddy-data": null, "caddy-config": null });
+    if (proxy === "traefik") volumes["traefik-data"] = null;
+
+    const doc = new Document(
+        { services, ...(Object.keys(volumes).length > 0 ? { volumes } : {}) },
+        // YAML 1.1 rules quote values such as "Y" that Compose would otherwise read as booleans
+        { version: "1.1" }
+    );
+    const entries = (doc.get("services", true) as YAMLMap).items as Pair<Scalar, YAMLMap>[];
+    entries.forEach((entry, index) => {
+        if (index > 0) entry.key.spaceBefore = true;
+        const test = entry.value!.getIn(["healthcheck", "test"], true);
+        if (isSeq(test)) {
+            test.flow = true;
+            for (const item of test.items as Scalar[]) item.type = Scalar.QUOTE_DOUBLE;
+        }
+    });
+    const volumesKey = (doc.contents as YAMLMap).items.find((pair) => (pair.key as Scalar).value === "volumes");
+    if (volumesKey) (volumesKey.key as Scalar).spaceBefore = true;
+
+    const header = proxy
+        ? `# Production stack behind ${proxy === "caddy" ? "Caddy" : "Traefik"}: docker compose -f docker-compose.prod.yml --env-file .env.production up -d --build`
+        : `# Production stack for Coolify: create a "Docker Compose" resource from this repository with this file`;
+    return `${header}
+${doc.toString({ indent: 2, flowCollectionPadding: false, nullStr: "" })}`;
+}
+
+/** `.env.production.example`: every variable the self-hosted compose file requires, to fill in */
+function productionEnvExample(compose: string): string {
+    const keys = new Set([...compose.matchAll(/\$\{([A-Z0-9_]+):\?\}/g)].map((match) => match[1]));
+    return `# Variables of docker-compose.prod.yml: copy this file to .env.production and fill in every value
+${[...keys].map((key) => `${key}=`).join("\n")}
+`;
+}
+
+/** `vercel.json` of the web app; the monorepo builds it with a turbo filter from the repository root */
+function vercelConfig(ctx: FeatureContext): string {
+    const { config, pm } = ctx;
+    const vercel = config.monorepo
+        ? {
+              $schema: "https://openapi.vercel.sh/vercel.json",
+              framework: "nextjs",
+              installCommand: `cd ../.. && ${installCommand(ctx)}`,
+              buildCommand: `cd ../.. && ${execCommand(ctx)} turbo run build --filter=@ac/web`,
+              // Skips the deployment when nothing the web app depends on changed
+              ignoreCommand: "npx turbo-ignore --fallback=HEAD^1"
+          }
+        : {
+              $schema: "https://openapi.vercel.sh/vercel.json",
+              framework: "nextjs",
+              installCommand: installCommand(ctx),
+              buildCommand: `${pm} run build`
+          };
+    return JSON.stringify(vercel, null, 4) + "\n";
+}
+
+/** `railway.json` of one service, built from its Dockerfile or by Railpack */
+function railwayConfig(ctx: FeatureContext, service: "web" | "ws"): string {
+    const { config, pm } = ctx;
+    const lockfile = LOCKFILES[config.packageManager];
+    const dockerfile = service === "web" ? layoutPath("apps/web/Dockerfile", config) : wsDockerfile(ctx);
+    const extension = config.language === "typescript" ? "ts" : "js";
+    // The standalone image has no migration tooling; the migrate target is applied separately
+    const migrate = config.docker || service === "ws" ? undefined : migrateCommand(ctx);
+
+    const build = config.docker
+        ? { builder: "DOCKERFILE", dockerfilePath: dockerfile }
+        : service === "web"
+          ? {
+                builder: "RAILPACK",
+                buildCommand: config.monorepo
+                    ? `${execCommand(ctx)} turbo run build --filter=@ac/web`
+                    : `${pm} run build`
+            }
+          : {
+                builder: "RAILPACK",
+                // The service runs its sources on Bun without a build step
+                buildCommand: config.monorepo ? `${execCommand(ctx)} turbo run build --filter=@ac/ws` : "true"
+            };
+    const start = config.docker
+        ? {}
+        : {
+              startCommand:
+                  service === "web"
+                      ? config.monorepo
+                          ? `cd apps/web && ${pm} run start`
+                          : `${pm} run start`
+                      : `bun run ${layoutPath(`apps/ws/src/server.${extension}`, config)}`
+          };
+
+    const railway = {
+        $schema: "https://railway.com/railway.schema.json",
+        build: {
+            ...build,
+            // Only changes to the service and what it is built from trigger a deployment
+            ...(config.monorepo
+                ? {
+                      watchPatterns:
+                          service === "web"
+                              ? ["apps/web/**", "packages/**", "package.json", lockfile]
+                              : ["apps/ws/**", "package.json", lockfile]
+                  }
+                : {})
+        },
+        deploy: {
+            ...start,
+            ...(migrate ? { preDeployCommand: [migrate] } : {}),
+            healthcheckPath: "/health",
+            healthcheckTimeout: 120,
+            restartPolicyType: "ON_FAILURE",
+            restartPolicyMaxRetries: 10
+        }
+    };
+    return JSON.stringify(railway, null, 4) + "\n";
+}
+
+/** Where the Railway config of the WebSocket service is; its service settings point at it */
+function railwayWsConfigPath({ config }: FeatureContext): string {
+    return config.monorepo ? "apps/ws/railway.json" : "ws/railway.json";
+}
+
+/**
+ * Writes the configuration of the selected deployment target: a production compose file for
+ * Coolify and Kubernetes manifests (both with Docker enabled), `vercel.json` for Vercel and
+ * `railway.json` per service for Railway. Without a target, a reverse proxy gets a self-hosted
+ * production compose file. Runs after the layout is applied and writes to the final paths.
+ */
+export function generateDeployment(project: VirtualFs, features: FeatureModule[], ctx: FeatureContext) {
+    const { config } = ctx;
+    switch (config.deployment) {
+        case "coolify":
+            // The compose file builds the images from the Dockerfiles
+            if (config.docker) project.write("docker-compose.prod.yml", productionCompose(features, ctx), "coolify");
+            break;
+        case "vercel":
+            project.write(layoutPath("apps/web/vercel.json", config), vercelConfig(ctx), "vercel");
+            break;
+        case "railway":
+            project.write("railway.json", railwayConfig(ctx, "web"), "railway");
+            if (config.realtime === "websocket") {
+                project.write(railwayWsConfigPath(ctx), railwayConfig(ctx, "ws"), "railway");
+            }
+            break;
+        case "kubernetes":
+            // The manifests run the images of the Dockerfiles
+            if (config.docker) generateKubernetesManifests(project, features, ctx);
+            break;
+        case "none": {
+            const proxy = reverseProxy(config);
+            if (proxy) {
+                const compose = productionCompose(features, ctx);
+                project.write("docker-compose.prod.yml", compose, proxy);
+                project.write(".env.production.example", productionEnvExample(compose), proxy);
+            }
+            break;
+        }
+    }
+}
@@ -0,0 +1,238 @@
+import fs from "fs-extra";
+import path from "path";
+import { parse } from "yaml";
+import { CHOICES, type ProjectConfig } from "./config";
+import { enabledFeatures, type FeatureContext, type FeatureModule } from "./features";
+import { featureContext } from "./generate";
+import { layoutPath } from "./layout";
+import { TEMPLATES_DIR } from "./template";
+
+/** Options detected from the modules they enable, in order: later modules can depend on earlier answers */
+const DETECTED_OPTIONS = [
+    "docker",
+    "orm",
+    "auth",
+    "styling",
+    "realtime",
+    "storage",
+    "analytics",
+    "ratelimit",
+    "deployment",
+    "proxy",
+    "cicd"
+] as const;
+
+const PACKAGE_FILES = [
+    "package.json",
+    "apps/web/package.json",
+    "packages/db/package.json",
+    "packages/analytics/package.json",
+    "apps/ws/package.json"
+];
+
+interface ProjectSnapshot {
+    has: (file: string) => boolean;
+    read: (file: string) => string | undefined;
+    /** Every package named in any of the project's package.json files */
+    packages: Set<string>;
+    /** Variables of .env.example */
+    env: Map<string, string>;
+}
+
+/**
+ * Works out the `ProjectConfig` an existing project was generated with: the layout and
+ * language from its files, the database from `DATABASE_URL` and every other option from
+ * the env vars, dependencies and files of the feature modules it enables.
+ */
+export async function detectConfig(root: string): Promise<ProjectConfig> {
+    const project = await snapshot(root);
+    const pkg = JSON.parse(project.read("package.json") ?? "{}");
+    const monorepo = project.has("apps/web/package.json");
+    // .env.example only has a placeholder of a hosted database's URL; .env has the URL itself
+    const url = parseEnv(project.read(".env") ?? "").get("DATABASE_URL") ?? project.env.get("DATABASE_URL");
+    const database = detectDatabase(url, project.read("docker-compose.yml"));
+    const hostedUrl = url && database !== "sqlite" && !url.includes("localhost") ? url : undefined;
+
+    let config: ProjectConfig = {
+        name: typeof pkg.name === "string" ? pkg.name : path.basename(root),
+        language: project.has(`${monorepo ? "apps/web/" : ""}tsconfig.json`) ? "typescript" : "javascript",
+        packageManager: detectPackageManager(pkg.packageManager, project),
+        monorepo,
+        database,
+        hasHostedDb: Boolean(hostedUrl),
+        ...(hostedUrl ? { databaseUrl: hostedUrl } : {}),
+        orm: "none",
+        auth: "none",
+        styling: "none",
+        realtime: "none",
+        storage: "none",
+        analytics: "none",
+        ratelimit: "none",
+        deployment: "none",
+        proxy: "none",
+        cicd: false,
+        docker: false
+    };
+
+    for (const option of DETECTED_OPTIONS) {
+        const values: readonly (string | boolean)[] =
+            option === "docker" || option === "cicd" ? [true] : CHOICES[option];
+        const baseline = enabledFeatures(config);
+        let best: { value: string | boolean; modules: number } | undefined;
+        for (const value of values) {
+            if (value === "none") continue;
+            const candidate = { ...config, [option]: value };
+            // Only the modules this value turns on tell it apart, e.g. shadcn/ui adds Tailwind too
+            const modules = enabledFeatures(candidate).filter((feature) => !baseline.includes(feature));
+            if (modules.length === 0 || modules.length <= (best?.modules ?? 0)) continue;
+            const ctx = featureContext(candidate);
+            if ((await Promise.all(modules.map((feature) => isPresent(feature, ctx, project)))).every(Boolean)) {
+                best = { value, modules: modules.length };
+            }
+        }
+        if (best) config = { ...config, [option]: best.value };
+    }
+
+    return config;
+}
+
+async function snapshot(root: string): Promise<ProjectSnapshot> {
+    const read = (file: string) => {
+        const target = path.join(root, file);
+        return fs.existsSync(target) ? fs.readFileSync(target, "utf-8") : undefined;
+    };
+
+    const packages = new Set<string>();
+    for (const file of PACKAGE_FILES) {
+        const source = read(file);
+        if (source === undefined) continue;
+        const pkg = JSON.parse(source);
+        for (const name of [...Object.keys(pkg.dependencies ?? {}), ...Object.keys(pkg.devDependencies ?? {})]) {
+            packages.add(name);
+        }
+    }
+
+    return {
+        has: (file) => fs.existsSync(path.join(root, file)),
+        read,
+        packages,
+        env: parseEnv(read(".env.example") ?? read(".env") ?? "")
+    };
+}
+
+export function parseEnv(source: string): Map<string, string> {
+    const env = new Map<string, string>();
+    for (const line of source.split("\n")) {
+        const match = line.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/);
+        if (match) env.set(match[1], match[2]);
+    }
+    return env;
+}
+
+/**
+ * The secrets a project was generated with, read back from its .env and the environment
+ * of its compose services, so that regenerating it reproduces the passwords it already uses.
+ * `DATABASE_URL` of .env is the hosted database's URL, which afc.json leaves out.
+ */
+export async function readSecrets(root: string): Promise<Record<string, string>> {
+    const read = (file: string) => {
+        const target = path.join(root, file);
+        return fs.existsSync(target) ? fs.readFileSync(target, "utf-8") : undefined;
+    };
+
+    const secrets: Record<string, string> = {};
+    const compose = read("docker-compose.yml");
+    const services = compose ? (parse(compose, { version: "1.1" })?.services ?? {}) : {};
+    for (const service of Object.values<{ environment?: unknown } | null>(services)) {
+        const environment = service?.environment;
+        // Compose takes the environment as a map or as a list of KEY=value entries
+        const entries = Array.isArray(environment)
+            ? environment.map((entry) => String(entry).split(/=(.*)/s).slice(0, 2))
+            : Object.entries(environment ?? {});
+        for (const [key, value] of entries) {
+            if (value !== undefined && value !== null) secrets[key] = String(value);
+        }
+    }
+    // .env wins over a service's variable of the same name, e.g. the DATABASE_URL of Umami's container
+    return { ...secrets, ...Object.fromEntries(parseEnv(read(".env") ?? "")) };
+}
+
+function detectDatabase(url: string | undefined, compose: string | undefined): ProjectConfig["database"] {
+    if (!url) return "none";
+    if (url.startsWith("file:")) return "sqlite";
+    if (url.startsWith("mongodb")) return "mongodb";
+    if (url.startsWith("sqlserver:") || url.startsWith("Server=")) return "mssql";
+    // MariaDB shares MySQL's URL scheme; only its container tells them apart
+    if (url.startsWith("mysql")) return compose?.includes("image: mariadb") ? "mariadb" : "mysql";
+    return "postgres";
+}
+
+function detectPackageManager(field: unknown, project: ProjectSnapshot): ProjectConfig["packageManager"] {
+    const name = typeof field === "string" ? field.split("@")[0] : "";
+    if ((CHOICES.packageManager as readonly string[]).includes(name)) return name as ProjectConfig["packageManager"];
+    if (project.has("bun.lock") || project.has("bun.lockb")) return "bun";
+    if (project.has("pnpm-lock.yaml")) return "pnpm";
+    return "npm";
+}
+
+/**
+ * Whether a module's footprint is in the project: its env vars, dependencies and compose
+ * services, or for modules without env vars and dependencies its files, or failing that its
+ * SETUP.md sections.
+ */
+async function isPresent(feature: FeatureModule, ctx: FeatureContext, project: ProjectSnapshot): Promise<boolean> {
+    const env = (feature.env?.(ctx) ?? []).flatMap((group) => group.vars.map((variable) => variable.key));
+    const packages = Object.values(feature.dependencies?.(ctx) ?? {}).flatMap((set) => [
+        ...Object.keys(set.dependencies ?? {}),
+        ...Object.keys(set.devDependencies ?? {})
+    ]);
+    if (env.length > 0 || packages.length > 0) {
+        // MinIO and S3 share their variables and SDK; only MinIO runs a compose service
+        const compose = project.read("docker-compose.yml") ?? "";
+        const services = (feature.services?.(ctx) ?? []).map((service) => service.name);
+        return (
+            env.every((key) => project.env.has(key)) &&
+            packages.every((name) => project.packages.has(name)) &&
+            services.every((name) => new RegExp(`^  ${name}:`, "m").test(compose))
+        );
+    }
+
+    const files = await featureFiles(feature, ctx);
+    if (files.length > 0) return files.every((file) => project.has(file));
+
+    const sections = feature.setup?.(ctx).sections ?? [];
+    const setup = project.read("SETUP.md") ?? "";
+    return sections.length > 0 && sections.every((section) => setup.includes(`## ${section.title}\n`));
+}
+
+/** Paths of the files a module adds, in the project's layout and language */
+async function featureFiles(feature: FeatureModule, ctx: FeatureContext): Promise<string[]> {
+    const files: string[] = [];
+    for (const spec of feature.files?.(ctx) ?? []) {
+        if ("content" in spec) {
+            files.push(spec.to);
+            continue;
+        }
+        const source = path.join(TEMPLATES_DIR, spec.from);
+        if (!(await fs.stat(source)).isDirectory()) {
+            files.push(spec.to);
+            continue;
+        }
+        for (const entry of await fs.readdir(source, { recursive: true, withFileTypes: true })) {
+            if (!entry.isFile()) continue;
+            const relative = path.relative(source, path.join(entry.parentPath, entry.name)).split(path.sep).join("/");
+            files.push(path.posix.join(spec.to, relative));
+        }
+    }
+
+    return files
+        .filter((file) => ctx.config.language === "typescript" || !file.endsWith(".d.ts"))
+        .map((file) => {
+            const target = layoutPath(file, ctx.config);
+            if (ctx.config.language === "typescript") return target;
+            return target
+                .replace(/\.ts$/, ".js")
+                .replace(/\.tsx$/, ".jsx")
+                .replace(/tsconfig\.json$/, "jsconfig.json");
+        });
+}
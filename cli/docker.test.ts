@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test";
+import { DEFAULT_CONFIG, type ProjectConfig } from "./config";
+import { hasMigrateTarget } from "./docker";
+import { generateProject } from "./generate";
+
+const config: ProjectConfig = { ...DEFAULT_CONFIG, name: "demo" };
+
+async function dockerfiles(overrides: Partial<ProjectConfig> = {}) {
+    const project = await generateProject({ ...config, ...overrides });
+    return { project, web: project.read(overrides.monorepo === false ? "Dockerfile" : "apps/web/Dockerfile")! };
+}
+
+/** `image AS name` of each stage, in order */
+const stages = (dockerfile: string): string[] => [...dockerfile.matchAll(/^FROM (.+)$/gm)].map((match) => match[1]);
+
+describe("Dockerfiles", () => {
+    it("should not be written without Docker", async () => {
+        const project = await generateProject({
+            ...config,
+            docker: false,
+            deployment: "vercel",
+            realtime: "websocket"
+        });
+
+        expect(project.files().filter((file) => file.endsWith("Dockerfile"))).toEqual([]);
+    });
+
+    it("should install and run on Bun's images with bun", async () => {
+        const { web } = await dockerfiles({ packageManager: "bun" });
+
+        expect(stages(web)).toEqual([
+            "oven/bun:1.3 AS prune",
+            "oven/bun:1.3 AS deps",
+            "deps AS source",
+            "source AS build",
+            "deps AS migrate",
+            "oven/bun:1.3-slim AS runtime"
+        ]);
+        expect(web).toContain("COPY --from=prune /repo/out/bun.lock ./bun.lock\nRUN bun install --frozen-lockfile");
+        expect(web).toContain("USER bun");
+        expect(web).toContain('CMD ["bun", "apps/web/server.js"]');
+    });
+
+    it("should install with pnpm and npm on Node's images", async () => {
+        const { web: pnpm } = await dockerfiles({ packageManager: "pnpm" });
+        const { web: npm } = await dockerfiles({ packageManager: "npm" });
+
+        expect(pnpm).toContain("FROM node:20-alpine AS deps\nRUN corepack enable\n");
+        expect(pnpm).toContain("RUN pnpm dlx turbo@^2 prune @ac/web --docker");
+        expect(pnpm).toContain(
+            "COPY --from=prune /repo/out/pnpm-lock.yaml ./pnpm-lock.yaml\nRUN pnpm install --frozen-lockfile"
+        );
+        expect(npm).not.toContain("corepack");
+        expect(npm).toContain("COPY --from=prune /repo/out/package-lock.json ./package-lock.json\nRUN npm ci");
+        expect(npm).toContain("RUN npx turbo run build --filter=@ac/web");
+        for (const web of [pnpm, npm]) {
+            expect(web).toContain("USER node");
+            expect(web).toContain('CMD ["node", "apps/web/server.js"]');
+        }
+    });
+
+    it("should pass the NEXT_PUBLIC_ variables in as build arguments", async () => {
+        const { web } = await dockerfiles({ realtime: "websocket", analytics: "none" });
+
+        expect(web).toContain(
+            "ARG NEXT_PUBLIC_APP_URL\nARG NEXT_PUBLIC_WS_URL\nENV NEXT_PUBLIC_APP_URL=$NEXT_PUBLIC_APP_URL\n"
+        );
+        expect(web).not.toContain("ARG DATABASE_URL");
+    });
+
+    it("should give the Prisma schema to the install, which generates the client", async () => {
+        const { web } = await dockerfiles({ orm: "prisma" });
+
+        expect(web).toContain(
+            "COPY --from=prune /repo/out/full/packages/db/prisma ./packages/db/prisma\nRUN bun install --frozen-lockfile"
+        );
+    });
+
+    it("should build the WebSocket service on Bun with production dependencies only", async () => {
+        const { project } = await dockerfiles({ packageManager: "npm", realtime: "websocket" });
+        const ws = project.read("apps/ws/Dockerfile")!;
+
+        expect(ws).toContain("RUN npx --yes turbo@^2 prune @ac/ws --docker");
+        expect(ws).toContain("RUN npm ci --omit=dev --ignore-scripts");
+        expect(stages(ws).at(-1)).toBe("oven/bun:1.3-slim AS runtime");
+        expect(ws).toContain('CMD ["bun", "apps/ws/src/server.ts"]');
+    });
+
+    it("should keep the single app's Dockerfiles at its root", async () => {
+        const { project, web } = await dockerfiles({ monorepo: false, realtime: "websocket" });
+
+        expect(stages(web)[0]).toBe("oven/bun:1.3 AS deps");
+        expect(web).toContain("COPY package.json bun.lock ./");
+        expect(web).toContain('CMD ["bun", "server.js"]');
+        expect(project.read("ws/Dockerfile")).toContain("COPY --from=source --chown=bun:bun /repo/ws ./ws");
+    });
+});
+
+describe("migrate target", () => {
+    it("should be built for a local database with an ORM", () => {
+        expect(hasMigrateTarget(config)).toBe(true);
+        expect(hasMigrateTarget({ ...config, orm: "none" })).toBe(false);
+        expect(hasMigrateTarget({ ...config, database: "none", orm: "none" })).toBe(false);
+        expect(hasMigrateTarget({ ...config, hasHostedDb: true })).toBe(false);
+    });
+
+    it("should run the ORM's migrations", async () => {
+        const { web: drizzle } = await dockerfiles({ orm: "drizzle", packageManager: "pnpm" });
+        const { web: prisma } = await dockerfiles({ orm: "prisma" });
+        const { web: hosted } = await dockerfiles({ hasHostedDb: true });
+
+        expect(drizzle).toContain('FROM deps AS migrate\nCOPY . .\nCMD ["pnpm", "run", "db:migrate"]');
+        expect(prisma).toContain('CMD ["bun", "run", "db:deploy"]');
+        expect(stages(hosted)).not.toContain("deps AS migrate");
+    });
+});
@@ -0,0 +1,211 @@
+import type { ProjectConfig } from "./config";
+import type { FeatureContext, FeatureModule } from "./features";
+import { layoutPath } from "./layout";
+import type { VirtualFs } from "./vfs";
+
+export const LOCKFILES: Record<ProjectConfig["packageManager"], string> = {
+    bun: "bun.lock",
+    pnpm: "pnpm-lock.yaml",
+    npm: "package-lock.json"
+};
+
+/** Whether the web Dockerfile gets a `migrate` target: a local database with migrations to apply */
+export function hasMigrateTarget(config: ProjectConfig): boolean {
+    return config.database !== "none" && config.orm !== "none" && !config.hasHostedDb;
+}
+
+/** How a package manager's images install and run the project */
+interface Toolchain {
+    /** Image the dependencies are installed and the app is built in */
+    builder: string;
+    /** Image the web app runs in, with `user` as its non-root user */
+    runtime: string;
+    user: string;
+    /** Command that runs the standalone server and the healthcheck */
+    node: string;
+    install: string;
+    /** Installs only the dependencies the service needs at runtime */
+    installProduction: string;
+    /** Runs a binary of the installed dependencies */
+    exec: string;
+    /** Runs a package without installing it, for `turbo prune` before any install */
+    dlx: string;
+}
+
+function toolchain({ config }: FeatureContext): Toolchain {
+    switch (config.packageManager) {
+        case "bun":
+            return {
+                builder: "oven/bun:1.3",
+                runtime: "oven/bun:1.3-slim",
+                user: "bun",
+                node: "bun",
+                install: "bun install --frozen-lockfile",
+                installProduction: "bun install --frozen-lockfile --production",
+                exec: "bunx",
+                dlx: "bunx"
+            };
+        case "pnpm":
+            return {
+                builder: "node:20-alpine",
+                runtime: "node:20-alpine",
+                user: "node",
+                node: "node",
+                install: "pnpm install --frozen-lockfile",
+                installProduction: "pnpm install --frozen-lockfile --prod",
+                exec: "pnpm exec",
+                dlx: "pnpm dlx"
+            };
+        default:
+            return {
+                builder: "node:20-alpine",
+                runtime: "node:20-alpine",
+                user: "node",
+                node: "node",
+                install: "npm ci",
+                installProduction: "npm ci --omit=dev",
+                exec: "npx",
+                dlx: "npx --yes"
+            };
+    }
+}
+
+/** A HEALTHCHECK that fetches `/health` with the image's own runtime, as slim images have no curl */
+function healthcheck(runtime: string, port: number): string {
+    const probe = `fetch('http://localhost:${port}/health').then((res) => process.exit(res.ok ? 0 : 1), () => process.exit(1))`;
+    return `HEALTHCHECK --interval=30s --timeout=5s --start-period=10s --retries=3 \\
+    CMD ["${runtime}", "-e", "${probe}"]`;
+}
+
+/**
+ * The stages that install the dependencies of `workspace` and copy its sources into
+ * `/repo`. The monorepo prunes itself to the workspace with `turbo prune` first so the
+ * install layer only changes with the workspace's own dependencies.
+ */
+function installStages(ctx: FeatureContext, tools: Toolchain, workspace: string, install: string): string {
+    const { config, pm } = ctx;
+    const lockfile = LOCKFILES[config.packageManager];
+    const corepack = pm === "pnpm" ? "RUN corepack enable\n" : "";
+    // Prisma generates its client on install, so the web app needs the schema before its sources
+    const schema = config.monorepo ? "packages/db/prisma" : "prisma";
+    const prisma = config.orm === "prisma" && workspace === "@ac/web";
+
+    if (!config.monorepo) {
+        return `FROM ${tools.builder} AS deps
+${corepack}WORKDIR /repo
+COPY package.json ${lockfile} ./
+${prisma ? `COPY ${schema} ./${schema}\n` : ""}RUN ${install}
+
+FROM deps AS source
+COPY . .`;
+    }
+
+    return `FROM ${tools.builder} AS prune
+${corepack}WORKDIR /repo
+COPY . .
+RUN ${tools.dlx} turbo@^2 prune ${workspace} --docker
+
+FROM ${tools.builder} AS deps
+${corepack}WORKDIR /repo
+COPY --from=prune /repo/out/json/ .
+COPY --from=prune /repo/out/${lockfile} ./${lockfile}
+${prisma ? `COPY --from=prune /repo/out/full/${schema} ./${schema}\n` : ""}RUN ${install}
+
+FROM deps AS source
+COPY --from=prune /repo/out/full/ .`;
+}
+
+function webDockerfile(ctx: FeatureContext, features: FeatureModule[], file: string): string {
+    const { config, pm } = ctx;
+    const tools = toolchain(ctx);
+    const app = config.monorepo ? "apps/web" : ".";
+    const build = config.monorepo ? `${tools.exec} turbo run build --filter=@ac/web` : `${pm} run build`;
+    // Next.js inlines NEXT_PUBLIC_* variables into the browser bundle, so they are build arguments
+    const client = features
+        .flatMap((feature) => feature.env?.(ctx) ?? [])
+        .flatMap((group) => group.vars)
+        .map(({ key }) => key)
+        .filter((key) => key.startsWith("NEXT_PUBLIC_"));
+    const migrate = hasMigrateTarget(config);
+
+    return `# syntax=docker/dockerfile:1
+# Build from the project root: docker build -f ${file} .
+
+${installStages(ctx, tools, "@ac/web", tools.install)}
+
+FROM source AS build
+${[...client.map((key) => `ARG ${key}\n`), ...client.map((key) => `ENV ${key}=$${key}\n`)].join("")}# The runtime secrets are not available while the image builds; env.ts validates them when the server starts
+ENV SKIP_ENV_VALIDATION=1
+ENV NEXT_TELEMETRY_DISABLED=1
+RUN ${build}
+${
+    migrate
+        ? `
+# Applies the migrations and exits: docker build --target migrate, then run it before each deploy.
+${config.monorepo ? "# It takes the whole project, as turbo prune leaves out the files at the root such as the migrations\n" : ""}FROM deps AS migrate
+COPY . .
+CMD ["${pm}", "run", "${config.orm === "prisma" ? "db:deploy" : "db:migrate"}"]
+`
+        : ""
+}
+FROM ${tools.runtime} AS runtime
+WORKDIR /app
+ENV NODE_ENV=production
+ENV NEXT_TELEMETRY_DISABLED=1
+ENV PORT=3000
+ENV HOSTNAME=0.0.0.0
+COPY --from=build --chown=${tools.user}:${tools.user} /repo/${app}/.next/standalone ./
+COPY --from=build --chown=${tools.user}:${tools.user} /repo/${app}/.next/static ./${config.monorepo ? "apps/web/" : ""}.next/static
+COPY --from=build --chown=${tools.user}:${tools.user} /repo/${app}/public ./${config.monorepo ? "apps/web/" : ""}public
+USER ${tools.user}
+EXPOSE 3000
+${healthcheck(tools.node, 3000)}
+CMD ["${tools.node}", "${config.monorepo ? "apps/web/" : ""}server.js"]
+`;
+}
+
+function wsDockerfile(ctx: FeatureContext, file: string): string {
+    const { config } = ctx;
+    const tools = toolchain(ctx);
+    const extension = config.language === "typescript" ? "ts" : "js";
+    const server = layoutPath(`apps/ws/src/server.${extension}`, config);
+
+    return `# syntax=docker/dockerfile:1
+# Build from the project root: docker build -f ${file} .
+
+${installStages(ctx, tools, "@ac/ws", `${tools.installProduction} --ignore-scripts`)}
+
+# The service runs its sources on Bun whichever package manager installed them
+FROM oven/bun:1.3-slim AS runtime
+WORKDIR /app
+ENV NODE_ENV=production
+ENV PORT=4001
+COPY --from=source --chown=bun:bun /repo/node_modules ./node_modules
+${
+    config.monorepo
+        ? "COPY --from=source --chown=bun:bun /repo/apps/ws ./apps/ws"
+        : `COPY --from=source --chown=bun:bun /repo/package.json ./package.json
+COPY --from=source --chown=bun:bun /repo/ws ./ws`
+}
+USER bun
+EXPOSE 4001
+${healthcheck("bun", 4001)}
+CMD ["bun", "${server}"]
+`;
+}
+
+/**
+ * Writes the production Dockerfiles: a Next.js standalone image of the web app and, with the
+ * WebSocket service, a Bun image of it. Both run as a non-root user and probe `/health`.
+ * Runs after the layout is applied and writes to the final paths.
+ */
+export function generateDockerfiles(project: VirtualFs, features: FeatureModule[], ctx: FeatureContext) {
+    const { config } = ctx;
+    const web = layoutPath("apps/web/Dockerfile", config);
+    project.write(web, webDockerfile(ctx, features, web), "docker");
+    if (config.realtime === "websocket") {
+        // The single app keeps the service next to its sources in ws/
+        const ws = config.monorepo ? "apps/ws/Dockerfile" : "ws/Dockerfile";
+        project.write(ws, wsDockerfile(ctx, ws), "docker");
+    }
+}
@@ -0,0 +1,717 @@
+import fs from "fs-extra";
+import net from "net";
+import path from "path";
+import { pathToFileURL } from "url";
+import { execa } from "execa";
+import { blankSourceFile } from "ts-blank-space";
+import ts from "typescript";
+import { parseDocument } from "yaml";
+import { DATABASE_LABELS, type ProjectConfig } from "./config";
+import { parseEnv } from "./detect";
+import { drizzleFeature } from "./features/orm";
+import { featureContext } from "./generate";
+import { layoutPath } from "./layout";
+
+export const DOCTOR_USAGE = `Usage: bun run doctor [options]
+
+Checks a generated project's local setup: env vars, ports, Docker services, database and
+storage connectivity and pending migrations.
+
+Options:
+  -C, --cwd <dir>   Project to check (default: the current directory)
+  -h, --help        Show this help`;
+
+export interface Diagnosis {
+    status: "ok" | "warn" | "fail" | "skip";
+    message: string;
+    /** What to do about a warning or failure */
+    fix?: string;
+}
+
+export interface DoctorSection {
+    title: string;
+    diagnoses: Diagnosis[];
+}
+
+interface Container {
+    state: string;
+    /** `healthy`, `unhealthy`, `starting` or empty when the service has no healthcheck */
+    health: string;
+}
+
+interface Project {
+    root: string;
+    config: ProjectConfig;
+    pm: string;
+    /** The variables the app sees, from the env files Next.js loads */
+    env: Map<string, string>;
+    /** Host ports of each docker-compose.yml service */
+    services: Map<string, number[]>;
+    /** Containers of the compose project by service, or why Docker could not be asked */
+    containers: Map<string, Container> | string;
+}
+
+/** Default port of each database URL scheme */
+const DATABASE_PORTS: Record<string, number> = { postgres: 5432, postgresql: 5432, mysql: 3306, mongodb: 27017 };
+
+/**
+ * Runs every check that applies to the project's stack and returns the results by
+ * section, each problem with the command or edit that fixes it.
+ */
+export async function diagnose(root: string, config: ProjectConfig): Promise<DoctorSection[]> {
+    const project: Project = {
+        root,
+        config,
+        pm: featureContext(config).pm,
+        env: await loadEnv(root, config),
+        services: await composeServices(root),
+        containers: await composeContainers(root)
+    };
+
+    const sections: DoctorSection[] = [
+        { title: "Environment", diagnoses: await checkEnv(project) },
+        { title: "Ports", diagnoses: await checkPorts(project) }
+    ];
+    if (project.services.size > 0) sections.push({ title: "Docker services", diagnoses: checkContainers(project) });
+    if (config.database !== "none") sections.push({ title: "Database", diagnoses: await checkDatabase(project) });
+    if (config.storage === "minio" || config.storage === "s3") {
+        sections.push({ title: "Storage", diagnoses: await checkStorage(project) });
+    }
+    if (drizzleFeature.enabled(config)) {
+        sections.push({ title: "Migrations", diagnoses: await checkMigrations(project) });
+    }
+    return sections;
+}
+
+/** The root env files, then those of the app directory, later files overriding earlier ones */
+async function loadEnv(root: string, config: ProjectConfig): Promise<Map<string, string>> {
+    const dirs = config.monorepo ? [".", "apps/web"] : ["."];
+    const env = new Map<string, string>();
+    for (const file of dirs.flatMap((dir) => [`${dir}/.env`, `${dir}/.env.local`])) {
+        const target = path.join(root, file);
+        if (!fs.existsSync(target)) continue;
+        for (const [key, value] of parseEnv(await fs.readFile(target, "utf-8"))) {
+            env.set(key, value.replace(/^(["'])(.*)\1$/, "$2"));
+        }
+    }
+    return env;
+}
+
+async function composeServices(root: string): Promise<Map<string, number[]>> {
+    const services = new Map<string, number[]>();
+    const file = path.join(root, "docker-compose.yml");
+    if (!fs.existsSync(file)) return services;
+
+    const doc = parseDocument(await fs.readFile(file, "utf-8"), { version: "1.1" }).toJS();
+    for (const [name, service] of Object.entries<{ ports?: (string | number)[] }>(doc?.services ?? {})) {
+        // "5432:5432" and "127.0.0.1:5432:5432" publish the second to last part on the host
+        const ports = (service?.ports ?? []).map((port) => Number(String(port).split(":").at(-2) ?? port));
+        services.set(name, ports.filter(Number.isInteger));
+    }
+    return services;
+}
+
+async function composeContainers(root: string): Promise<Map<string, Container> | string> {
+    if (!fs.existsSync(path.join(root, "docker-compose.yml"))) return "the project has no docker-compose.yml";
+
+    const result = await execa("docker", ["compose", "ps", "--all", "--format", "json"], {
+        cwd: root,
+        reject: false,
+        timeout: 15_000
+    });
+    if (result.failed) {
+        return result.code === "ENOENT"
+            ? "docker is not installed"
+            : String(result.stderr || result.shortMessage).split("\n")[0];
+    }
+
+    // Older Compose versions print one JSON array, newer ones one object per line
+    const output = String(result.stdout).trim();
+    const entries: { Service: string; State: string; Health?: string }[] = output.startsWith("[")
+        ? JSON.parse(output)
+        : output
+              .split("\n")
+              .filter(Boolean)
+              .map((line) => JSON.parse(line));
+    return new Map(entries.map((entry) => [entry.Service, { state: entry.State, health: entry.Health ?? "" }]));
+}
+
+/** Whether something accepts connections on `host:port` */
+function isListening(port: number, host = "127.0.0.1"): Promise<boolean> {
+    return new Promise((resolve) => {
+        const socket = net.connect({ port, host });
+        const done = (listening: boolean) => {
+            socket.destroy();
+            resolve(listening);
+        };
+        socket.setTimeout(3000, () => done(false));
+        socket.once("connect", () => done(true));
+        socket.once("error", () => done(false));
+    });
+}
+
+async function checkEnv(project: Project): Promise<Diagnosis[]> {
+    const { root, config, env } = project;
+    if (!fs.existsSync(path.join(root, ".env"))) {
+        return [
+            {
+                status: "fail",
+                message: "The project has no .env file",
+                fix: "cp .env.example .env and fill in the values"
+            }
+        ];
+    }
+
+    const diagnoses: Diagnosis[] = [];
+    const example = path.join(root, ".env.example");
+    const missing = fs.existsSync(example)
+        ? [...parseEnv(await fs.readFile(example, "utf-8")).keys()].filter((key) => !env.has(key))
+        : [];
+    if (missing.length > 0) {
+        diagnoses.push({
+            status: "warn",
+            message: `${missing.join(", ")} ${missing.length === 1 ? "is" : "are"} in .env.example but not in .env`,
+            fix: "Copy the missing variables from .env.example into .env"
+        });
+    }
+
+    const file = layoutPath(`apps/web/src/env.${config.language === "typescript" ? "ts" : "js"}`, config);
+    const target = path.join(root, file);
+    const source = fs.existsSync(target) ? await fs.readFile(target, "utf-8") : undefined;
+    const rules = source === undefined ? undefined : readEnvSchema(file, source);
+    if (!rules) {
+        diagnoses.push({ status: "skip", message: "No zod env schema found to validate against" });
+        return diagnoses;
+    }
+
+    // Like the generated env.ts, empty values count as unset
+    const values: Record<string, string> = {};
+    for (const key of new Set([...Object.keys(process.env), ...env.keys()])) {
+        const value = env.get(key) || process.env[key];
+        if (value) values[key] = value;
+    }
+
+    // The project's own zod checks the values when the module loads; the rules read from its source are the fallback
+    const validated = await validateEnv(target, source!, values);
+    const problems = validated?.problems ?? new Map<string, string>();
+    if (!validated) {
+        for (const [key, rule] of rules) {
+            const value = values[key];
+            const problem =
+                value === undefined
+                    ? rule.optional
+                        ? undefined
+                        : "is required but not set"
+                    : rule.checks.map((check) => check(value)).find(Boolean);
+            if (problem) problems.set(key, problem);
+        }
+    }
+
+    const invalid: Diagnosis[] = [...problems].map(([key, problem]) => ({
+        status: "fail",
+        message: `${key} ${problem}, so ${file} rejects the env at startup`,
+        fix: `Set ${key} in .env`
+    }));
+    diagnoses.push(
+        ...(invalid.length > 0
+            ? invalid
+            : [
+                  {
+                      status: "ok" as const,
+                      message: `All ${validated?.size ?? rules.size} variables match the schema in ${file}`
+                  }
+              ])
+    );
+
+    const unchecked = validated
+        ? []
+        : [...rules].flatMap(([key, rule]) => rule.unchecked.map((method) => `${key} .${method}()`));
+    if (unchecked.length > 0) {
+        diagnoses.push({
+            status: "skip",
+            message: `${unchecked.join(", ")} not checked: ${file} could not be loaded with its zod`,
+            fix: `${project.pm} install`
+        });
+    }
+    return diagnoses;
+}
+
+/**
+ * Loads the env module and parses `values` with each of its `z.object()` schemas, so the project's
+ * own zod checks every method as the app would. The module loads with `SKIP_ENV_VALIDATION` set,
+ * as when Docker images build. Undefined when it cannot be loaded, e.g. before dependencies are
+ * installed or when it imports other project modules.
+ */
+export async function validateEnv(
+    target: string,
+    source: string,
+    values: Record<string, string>
+): Promise<{ size: number; problems: Map<string, string> } | undefined> {
+    const sourceFile = ts.createSourceFile(target, source, ts.ScriptTarget.Latest, true);
+    const schemas = envSchemas(sourceFile);
+    if (schemas.length === 0) return undefined;
+    if (!installed(path.dirname(target), "zod")) return undefined;
+
+    // ts-blank-space keeps every offset, so the schemas are found at the same positions in the JavaScript
+    const code = target.endsWith(".ts") ? blankSourceFile(sourceFile) : source;
+    const module = path.join(path.dirname(target), `.doctor-env-${process.pid}-${Date.now()}.mjs`);
+    const exported = schemas.map((schema) => code.slice(schema.getStart(), schema.getEnd()));
+    await fs.writeFile(module, `${code}\nexport const __doctorSchemas = [${exported.join(", ")}];\n`);
+
+    const saved = { ...process.env };
+    Object.assign(process.env, values, { SKIP_ENV_VALIDATION: "1" });
+    let loaded: { safeParse: (values: unknown) => ZodResult; shape: object }[];
+    try {
+        ({ __doctorSchemas: loaded } = await import(pathToFileURL(module).href));
+    } catch {
+        return undefined;
+    } finally {
+        for (const key of Object.keys(process.env)) {
+            if (!(key in saved)) delete process.env[key];
+        }
+        Object.assign(process.env, saved);
+        await fs.remove(module);
+    }
+
+    const problems = new Map<string, string>();
+    for (const schema of loaded) {
+        const result = schema.safeParse(values);
+        for (const issue of result.error?.issues ?? []) {
+            const key = String(issue.path[0]);
+            if (problems.has(key)) continue;
+            problems.set(
+                key,
+                values[key] === undefined ? "is required but not set" : `fails its schema ("${issue.message}")`
+            );
+        }
+    }
+    return { size: loaded.reduce((size, schema) => size + Object.keys(schema.shape).length, 0), problems };
+}
+
+/** Whether `name` is in a node_modules above `dir`; Bun would install a missing package on import instead of failing */
+function installed(dir: string, name: string): boolean {
+    for (let current = dir; ; current = path.dirname(current)) {
+        if (fs.existsSync(path.join(current, "node_modules", name, "package.json"))) return true;
+        if (path.dirname(current) === current) return false;
+    }
+}
+
+/** The part of zod's `safeParse()` result doctor reads */
+interface ZodResult {
+    error?: { issues: { path: (string | number)[]; message: string }[] };
+}
+
+export interface EnvRule {
+    optional: boolean;
+    /** Each returns what is wrong with a value, if anything */
+    checks: ((value: string) => string | undefined)[];
+    /** zod methods the rule does not understand, whose constraints go unchecked */
+    unchecked: string[];
+}
+
+type SchemaCall = ts.CallExpression & { arguments: [ts.ObjectLiteralExpression] };
+
+/** The `z.object({ ... })` calls of an env module, the server and client schemas */
+function envSchemas(sourceFile: ts.SourceFile): SchemaCall[] {
+    const schemas: SchemaCall[] = [];
+    const visit = (node: ts.Node) => {
+        if (
+            ts.isCallExpression(node) &&
+            ts.isPropertyAccessExpression(node.expression) &&
+            node.expression.name.text === "object" &&
+            node.expression.expression.getText() === "z" &&
+            node.arguments[0] &&
+            ts.isObjectLiteralExpression(node.arguments[0])
+        ) {
+            schemas.push(node as SchemaCall);
+            return;
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return schemas;
+}
+
+/**
+ * Reads the `z.object({ ... })` schemas of an env module (server and client) into rules for
+ * each variable, for when the module cannot be loaded. Only the zod methods generated schemas
+ * use are understood; the others are listed as unchecked.
+ */
+export function readEnvSchema(file: string, source: string): Map<string, EnvRule> | undefined {
+    const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true);
+    const rules = new Map<string, EnvRule>();
+    for (const schema of envSchemas(sourceFile)) {
+        for (const property of schema.arguments[0].properties) {
+            if (!ts.isPropertyAssignment(property)) continue;
+            const key = ts.isStringLiteral(property.name) ? property.name.text : property.name.getText();
+            rules.set(key, envRule(property.initializer));
+        }
+    }
+    if (rules.size === 0) return undefined;
+    return rules;
+}
+
+function envRule(expression: ts.Expression): EnvRule {
+    // z.string().url().optional() is read from the inside out
+    const calls: { method: string; args: ts.NodeArray<ts.Expression> }[] = [];
+    for (let node = expression; ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression); ) {
+        calls.unshift({ method: node.expression.name.text, args: node.arguments });
+        node = node.expression.expression;
+    }
+
+    const rule: EnvRule = { optional: false, checks: [], unchecked: [] };
+    let numeric = false;
+    for (const { method, args } of calls) {
+        const limit = args[0] && ts.isNumericLiteral(args[0]) ? Number(args[0].text) : undefined;
+        switch (method) {
+            case "optional":
+            case "default":
+            case "nullish":
+                rule.optional = true;
+                break;
+            case "number":
+                numeric = true;
+                rule.checks.push((value) => (Number.isNaN(Number(value)) ? "must be a number" : undefined));
+                break;
+            case "url":
+                rule.checks.push((value) => (isUrl(value) ? undefined : "must be a URL"));
+                break;
+            case "email":
+                rule.checks.push((value) =>
+                    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? undefined : "must be an email"
+                );
+                break;
+            case "min":
+                if (limit === undefined) break;
+                rule.checks.push((value) =>
+                    numeric
+                        ? Number(value) < limit
+                            ? `must be at least ${limit}`
+                            : undefined
+                        : value.length < limit
+                          ? `must be at least ${limit} characters long`
+                          : undefined
+                );
+                break;
+            case "max":
+                if (limit === undefined) break;
+                rule.checks.push((value) =>
+                    numeric
+                        ? Number(value) > limit
+                            ? `must be at most ${limit}`
+                            : undefined
+                        : value.length > limit
+                          ? `must be at most ${limit} characters long`
+                          : undefined
+                );
+                break;
+            case "startsWith": {
+                const prefix = args[0] && ts.isStringLiteral(args[0]) ? args[0].text : "";
+                rule.checks.push((value) => (value.startsWith(prefix) ? undefined : `must start with "${prefix}"`));
+                break;
+            }
+            case "enum": {
+                const values =
+                    args[0] && ts.isArrayLiteralExpression(args[0])
+                        ? args[0].elements.filter(ts.isStringLiteral).map((element) => element.text)
+                        : [];
+                rule.checks.push((value) =>
+                    values.includes(value) ? undefined : `must be one of ${values.join(", ")}`
+                );
+                break;
+            }
+            case "string":
+                break;
+            default:
+                rule.unchecked.push(method);
+        }
+    }
+    return rule;
+}
+
+function isUrl(value: string): boolean {
+    try {
+        new URL(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function checkPorts(project: Project): Promise<Diagnosis[]> {
+    const { config, services, containers } = project;
+    const diagnoses: Diagnosis[] = [];
+
+    for (const [service, ports] of services) {
+        const running = typeof containers !== "string" && containers.get(service)?.state === "running";
+        for (const port of ports) {
+            if (running) {
+                diagnoses.push({ status: "ok", message: `Port ${port} is used by the ${service} container` });
+            } else if (!(await isListening(port))) {
+                diagnoses.push({ status: "ok", message: `Port ${port} is free for ${service}` });
+            } else if (typeof containers === "string") {
+                // Without Docker to ask, the listener may well be the container itself
+                diagnoses.push({
+                    status: "warn",
+                    message: `Port ${port} is in use; unless that is the ${service} container, the container cannot start`,
+                    fix: `Find the process with \`lsof -i :${port}\``
+                });
+            } else {
+                diagnoses.push({
+                    status: "fail",
+                    message: `Port ${port} is taken by another process, so the ${service} container cannot start`,
+                    fix: `Find it with \`lsof -i :${port}\` and stop it, or publish ${service} on another host port in docker-compose.yml (and update .env to match)`
+                });
+            }
+        }
+    }
+
+    const apps = [
+        { port: 3000, name: "the Next.js dev server" },
+        ...(config.realtime === "websocket" ? [{ port: 4001, name: "the WebSocket service" }] : [])
+    ];
+    for (const { port, name } of apps) {
+        diagnoses.push(
+            (await isListening(port))
+                ? {
+                      status: "warn",
+                      message: `Port ${port} for ${name} is in use; fine if it is already running, otherwise it cannot start`,
+                      fix: `Find the process with \`lsof -i :${port}\``
+                  }
+                : { status: "ok", message: `Port ${port} is free for ${name}` }
+        );
+    }
+    return diagnoses;
+}
+
+function checkContainers(project: Project): Diagnosis[] {
+    const { pm, services, containers } = project;
+    if (typeof containers === "string") {
+        return [
+            {
+                status: "skip",
+                message: `Could not ask Docker about the services: ${containers}`,
+                fix: "Install Docker and make sure the Docker daemon is running"
+            }
+        ];
+    }
+
+    return [...services.keys()].map((service): Diagnosis => {
+        const container = containers.get(service);
+        if (!container || container.state !== "running") {
+            return {
+                status: "fail",
+                message: container ? `The ${service} container is ${container.state}` : `${service} is not running`,
+                fix: container
+                    ? `See why with \`docker compose logs ${service}\`, then run \`${pm} run docker:up\``
+                    : `Start it with \`${pm} run docker:up\``
+            };
+        }
+        if (container.health === "unhealthy") {
+            return {
+                status: "fail",
+                message: `${service} is running but unhealthy`,
+                fix: `See why with \`docker compose logs ${service}\``
+            };
+        }
+        if (container.health === "starting") {
+            return {
+                status: "warn",
+                message: `${service} is still starting`,
+                fix: "Wait a few seconds and run doctor again"
+            };
+        }
+        return { status: "ok", message: `${service} is running${container.health ? " and healthy" : ""}` };
+    });
+}
+
+/** Host and port of a database URL, including the two SQL Server connection string forms */
+function databaseAddress(url: string): { host: string; port: number } | undefined {
+    const sqlServer = url.match(/^Server=([^,;]+)(?:,(\d+))?/i) ?? url.match(/^sqlserver:\/\/([^:;]+)(?::(\d+))?/);
+    if (sqlServer) return { host: sqlServer[1], port: Number(sqlServer[2] ?? 1433) };
+    if (!isUrl(url)) return undefined;
+    const { protocol, hostname, port } = new URL(url);
+    const scheme = protocol.slice(0, -1);
+    const fallback = DATABASE_PORTS[scheme];
+    if (!hostname || (!port && !fallback)) return undefined;
+    return { host: hostname, port: Number(port || fallback) };
+}
+
+async function checkDatabase(project: Project): Promise<Diagnosis[]> {
+    const { root, config, pm, env, services } = project;
+    const url = env.get("DATABASE_URL");
+    if (config.database === "none") return [];
+    if (!url) return [{ status: "skip", message: "DATABASE_URL is not set" }];
+
+    if (config.database === "sqlite") {
+        const file = path.resolve(root, url.replace(/^file:/, ""));
+        return [
+            fs.existsSync(file)
+                ? { status: "ok", message: `Database file ${path.relative(root, file)} exists` }
+                : {
+                      status: "warn",
+                      message: `${path.relative(root, file)} does not exist yet`,
+                      fix: drizzleFeature.enabled(config)
+                          ? `Create it by applying the migrations with \`${pm} run db:migrate\``
+                          : undefined
+                  }
+        ];
+    }
+
+    const address = databaseAddress(url);
+    if (!address) {
+        return [{ status: "skip", message: "Could not read a host and port from DATABASE_URL" }];
+    }
+    const where = `${address.host}:${address.port}`;
+    if (await isListening(address.port, address.host)) {
+        return [{ status: "ok", message: `${DATABASE_LABELS[config.database]} is accepting connections at ${where}` }];
+    }
+    const local = ["localhost", "127.0.0.1"].includes(address.host) && services.has(config.database);
+    return [
+        {
+            status: "fail",
+            message: `Nothing is accepting connections at ${where}`,
+            fix: local
+                ? `Start the database with \`${pm} run docker:up\``
+                : "Check DATABASE_URL and that the database accepts connections from this machine"
+        }
+    ];
+}
+
+async function checkStorage(project: Project): Promise<Diagnosis[]> {
+    const { config, pm, env } = project;
+    const minio = config.storage === "minio";
+    const endpoint = (
+        env.get("S3_ENDPOINT") || `https://s3.${env.get("S3_REGION") || "us-east-1"}.amazonaws.com`
+    ).replace(/\/$/, "");
+    const bucket = env.get("S3_BUCKET");
+
+    let status: number;
+    try {
+        // Unsigned requests still tell a missing bucket (404) from one that exists (200/403)
+        const response = await fetch(bucket ? `${endpoint}/${bucket}` : endpoint, {
+            method: "HEAD",
+            redirect: "manual",
+            signal: AbortSignal.timeout(5000)
+        });
+        status = response.status;
+    } catch {
+        return [
+            {
+                status: "fail",
+                message: `Cannot reach the storage endpoint ${endpoint}`,
+                fix: minio
+                    ? `Start MinIO with \`${pm} run docker:up\``
+                    : "Check the endpoint and region in .env and your network connection"
+            }
+        ];
+    }
+
+    if (bucket && status === 404) {
+        return [
+            {
+                status: "fail",
+                message: `Bucket "${bucket}" does not exist at ${endpoint}`,
+                fix: minio
+                    ? `Create it in the MinIO console at http://localhost:9001`
+                    : "Create the bucket or fix the bucket name in .env"
+            }
+        ];
+    }
+    return [
+        {
+            status: "ok",
+            message: bucket ? `Bucket "${bucket}" is reachable at ${endpoint}` : `${endpoint} is reachable`
+        }
+    ];
+}
+
+async function checkMigrations(project: Project): Promise<Diagnosis[]> {
+    const { root, pm } = project;
+    const configFile = ["drizzle.config.ts", "drizzle.config.js"].find((file) => fs.existsSync(path.join(root, file)));
+    const out = configFile
+        ? ((await fs.readFile(path.join(root, configFile), "utf-8")).match(/\bout:\s*["'`]([^"'`]+)/)?.[1] ??
+          "./drizzle")
+        : "./drizzle";
+    const journal = path.join(root, out, "meta", "_journal.json");
+    const generated: unknown[] = fs.existsSync(journal) ? ((await fs.readJson(journal)).entries ?? []) : [];
+    if (generated.length === 0) {
+        return [
+            {
+                status: "warn",
+                message: `No migrations have been generated in ${out}`,
+                fix: `Generate them from the schema with \`${pm} run db:generate\`, then apply them with \`${pm} run db:migrate\``
+            }
+        ];
+    }
+
+    const applied = await appliedMigrations(project);
+    if (typeof applied === "string") {
+        return [
+            {
+                status: "skip",
+                message: `${generated.length} migration(s) generated; could not check which are applied: ${applied}`
+            }
+        ];
+    }
+    const pending = generated.length - applied;
+    return [
+        pending > 0
+            ? {
+                  status: "fail",
+                  message: `${pending} of ${generated.length} migration(s) have not been applied to the database`,
+                  fix: `Apply them with \`${pm} run db:migrate\``
+              }
+            : { status: "ok", message: `All ${generated.length} migration(s) are applied` }
+    ];
+}
+
+/** How many migrations drizzle-kit has recorded as applied, or why that could not be found out */
+async function appliedMigrations(project: Project): Promise<number | string> {
+    const { root, config, env, containers } = project;
+    const url = env.get("DATABASE_URL");
+    if (!url) return "DATABASE_URL is not set";
+
+    let command: string[];
+    if (config.database === "sqlite") {
+        const file = path.resolve(root, url.replace(/^file:/, ""));
+        if (!fs.existsSync(file)) return 0;
+        command = ["sqlite3", file, "select count(*) from __drizzle_migrations"];
+    } else {
+        // Other databases are queried through the client in their compose container
+        const container = typeof containers === "string" ? undefined : containers.get(config.database);
+        if (container?.state !== "running") return `the ${config.database} container is not running`;
+        const { username, password, pathname } = new URL(url);
+        const database = decodeURIComponent(pathname.slice(1));
+        const exec = ["docker", "compose", "exec", "-T", config.database];
+        command =
+            config.database === "postgres"
+                ? [
+                      ...exec,
+                      "psql",
+                      "-U",
+                      decodeURIComponent(username),
+                      "-d",
+                      database,
+                      "-tAc",
+                      "select count(*) from drizzle.__drizzle_migrations"
+                  ]
+                : [
+                      ...exec,
+                      config.database === "mariadb" ? "mariadb" : "mysql",
+                      `-u${decodeURIComponent(username)}`,
+                      `-p${decodeURIComponent(password)}`,
+                      database,
+                      "-N",
+                      "-e",
+                      "select count(*) from __drizzle_migrations"
+                  ];
+    }
+
+    const result = await execa(command[0], command.slice(1), { cwd: root, reject: false, timeout: 15_000 });
+    if (result.exitCode === 0) return Number(String(result.stdout).trim().split("\n").at(-1));
+    const error = String(result.stderr || result.message);
+    // drizzle-kit creates its table with the first migration
+    if (/does not exist|doesn't exist|no such table/i.test(error)) return 0;
+    return error.split("\n")[0];
+}
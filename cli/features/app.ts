@@ -0,0 +1,56 @@
+import type { FeatureModule } from "./types";
+
+/** The Next.js app and workspace tooling every project starts from */
+export const appFeature: FeatureModule = {
+    id: "app",
+    label: "Next.js app",
+    enabled: () => true,
+    dependencies: ({ config }) => ({
+        root: {
+            dependencies: { next: "^15.0.3", react: "^18.3.1", "react-dom": "^18.3.1" },
+            devDependencies: config.monorepo ? { turbo: "latest" } : undefined
+        }
+    }),
+    scripts: ({ config }): Record<string, string> =>
+        config.monorepo
+            ? {
+                  dev: "turbo run dev --parallel",
+                  build: "turbo run build",
+                  lint: "turbo run lint",
+                  test: "turbo run test",
+                  setup: "cat SETUP.md"
+              }
+            : {
+                  dev: "next dev",
+                  build: "next build",
+                  start: "next start",
+                  lint: "next lint",
+                  test: "bun test",
+                  setup: "cat SETUP.md"
+              },
+    env: () => [
+        {
+            title: "App",
+            vars: [{ key: "NEXT_PUBLIC_APP_URL", value: "http://localhost:3000", schema: "z.string().url()" }]
+        }
+    ]
+};
+
+export const typescriptFeature: FeatureModule = {
+    id: "typescript",
+    label: "TypeScript",
+    enabled: (config) => config.language === "typescript",
+    scripts: ({ config }): Record<string, string> => ({
+        typecheck: config.monorepo ? "turbo run typecheck" : "tsc --noEmit"
+    }),
+    dependencies: () => ({
+        root: {
+            devDependencies: {
+                typescript: "^5.6.3",
+                "@types/node": "^22.8.6",
+                "@types/react": "^18.3.11",
+                "@types/react-dom": "^18.3.1"
+            }
+        }
+    })
+};
@@ -0,0 +1,217 @@
+import type { ProjectConfig } from "../config";
+import { mongodbFeature } from "./mongodb";
+import { drizzleFeature } from "./orm";
+import { prismaFeature } from "./prisma";
+import type { FeatureModule } from "./types";
+
+interface Adapter {
+    name: string;
+    module: string;
+    version: string;
+    /** Names imported from the database package */
+    imports: string[];
+    /** Value of the `adapter` option */
+    expression: string;
+}
+
+/** Auth.js database adapter of each data layer */
+const ADAPTERS: Record<"drizzle" | "prisma" | "mongodb", Adapter> = {
+    drizzle: {
+        name: "DrizzleAdapter",
+        module: "@auth/drizzle-adapter",
+        version: "^1.7.2",
+        // The tables from packages/db, so migrations and the adapter agree on the schema
+        imports: ["db", "users", "accounts", "sessions", "verificationTokens"],
+        expression:
+            "DrizzleAdapter(db, { usersTable: users, accountsTable: accounts, sessionsTable: sessions, verificationTokensTable: verificationTokens })"
+    },
+    prisma: {
+        name: "PrismaAdapter",
+        module: "@auth/prisma-adapter",
+        version: "^2.7.2",
+        imports: ["db"],
+        expression: "PrismaAdapter(db)"
+    },
+    mongodb: {
+        name: "MongoDBAdapter",
+        module: "@auth/mongodb-adapter",
+        version: "^3.7.2",
+        imports: ["client"],
+        expression: "MongoDBAdapter(client)"
+    }
+};
+
+function adapterFor(config: ProjectConfig): Adapter | undefined {
+    if (drizzleFeature.enabled(config)) return ADAPTERS.drizzle;
+    if (prismaFeature.enabled(config)) return ADAPTERS.prisma;
+    if (mongodbFeature.enabled(config)) return ADAPTERS.mongodb;
+}
+
+export const nextAuthFeature: FeatureModule = {
+    id: "nextauth",
+    label: "NextAuth v5",
+    enabled: (config) => config.auth === "nextauth",
+    files: () => [{ from: "extras/nextauth", to: "." }],
+    slots: ({ config, dbImport }) => {
+        // Email sign-in stores verification tokens, so it is only offered with a database adapter
+        const adapter = adapterFor(config);
+        if (!adapter) return {};
+        return {
+            AUTH_IMPORTS: [
+                'import Email from "next-auth/providers/email";',
+                `import { ${adapter.name} } from "${adapter.module}";`,
+                `import { ${adapter.imports.join(", ")} } from "${dbImport}";`
+            ],
+            AUTH_PROVIDERS: [
+                `providers.push(
+    Email({
+        server: {
+            host: "smtp.resend.com",
+            port: 587,
+            auth: { user: "resend", pass: process.env.RESEND_API_KEY! }
+        },
+        from: process.env.RESEND_FROM
+    })
+);`
+            ],
+            AUTH_OPTIONS: [`adapter: ${adapter.expression},`]
+        };
+    },
+    dependencies: ({ config }) => {
+        const adapter = adapterFor(config);
+        return {
+            web: {
+                dependencies: {
+                    "next-auth": "5.0.0-beta.25",
+                    "@auth/core": "^0.37.2",
+                    ...(adapter ? { [adapter.module]: adapter.version } : {})
+                }
+            }
+        };
+    },
+    env: ({ config, secret }) => [
+        {
+            title: "NextAuth",
+            vars: [
+                { key: "NEXTAUTH_SECRET", value: secret("NEXTAUTH_SECRET"), schema: "z.string().min(32)" },
+                { key: "NEXTAUTH_URL", value: "http://localhost:3000", schema: "z.string().url()" }
+            ]
+        },
+        {
+            // Each provider is enabled once both of its variables are set
+            title: "OAuth Providers",
+            vars: ["GITHUB", "GOOGLE", "DISCORD"].flatMap((provider) => [
+                { key: `${provider}_CLIENT_ID`, value: "", schema: "z.string().optional()" },
+                { key: `${provider}_CLIENT_SECRET`, value: "", schema: "z.string().optional()" }
+            ])
+        },
+        ...(adapterFor(config)
+            ? [
+                  {
+                      title: "Email Sign-in (Resend)",
+                      vars: [
+                          { key: "RESEND_API_KEY", value: "", schema: "z.string().optional()" },
+                          { key: "RESEND_FROM", value: "", schema: "z.string().email().optional()" }
+                      ]
+                  }
+              ]
+            : [])
+    ]
+};
+
+/** Where the Lucia-style auth keeps users and sessions: the project's data layer, else memory */
+function luciaStore(config: ProjectConfig): "drizzle" | "prisma" | "mongodb" | "memory" {
+    if (drizzleFeature.enabled(config)) return "drizzle";
+    if (prismaFeature.enabled(config)) return "prisma";
+    if (mongodbFeature.enabled(config)) return "mongodb";
+    return "memory";
+}
+
+/**
+ * Session auth after the Lucia guide: email/password routes, hashed session tokens in the
+ * database and a `validateRequest()` helper. Lucia itself is deprecated, so the few functions
+ * it provided are generated into the app instead of installed.
+ */
+export const luciaFeature: FeatureModule = {
+    id: "lucia",
+    label: "Lucia",
+    enabled: (config) => config.auth === "lucia",
+    files: ({ config }) => [
+        { from: "extras/lucia/apps", to: "apps" },
+        { from: `extras/lucia/stores/${luciaStore(config)}.ts`, to: "apps/web/src/lib/auth/store.ts" }
+    ],
+    slots: ({ config, dbImport }) => {
+        const store = luciaStore(config);
+        if (store === "memory") return {};
+        return {
+            AUTH_STORE_IMPORTS: [`import { ${store === "drizzle" ? "db, sessions, users" : "db"} } from "${dbImport}";`]
+        };
+    },
+    dependencies: () => ({
+        web: {
+            dependencies: {
+                "@node-rs/argon2": "^2.0.2",
+                "@oslojs/crypto": "^1.0.1",
+                "@oslojs/encoding": "^1.1.0"
+            }
+        }
+    }),
+    setup: ({ config }) => {
+        const src = config.monorepo ? "apps/web/src" : "src";
+        return {
+            sections: [
+                {
+                    title: "Authentication (Lucia)",
+                    body: `Email/password sign-in with database sessions, following the [Lucia guide](https://lucia-auth.com):
+
+- \`POST /api/auth/sign-up\` and \`POST /api/auth/sign-in\` take \`{ "email", "password" }\` and set the \`session\` cookie
+- \`POST /api/auth/sign-out\` ends the current session
+- \`validateRequest()\` from \`${src}/lib/auth/session\` returns the current \`user\` and \`session\` (or nulls) in route handlers and server components${luciaStore(config) === "memory" ? "\n\nWithout a database, users and sessions are kept in memory and lost on restart." : ""}`
+                }
+            ]
+        };
+    }
+};
+
+export const clerkFeature: FeatureModule = {
+    id: "clerk",
+    label: "Clerk",
+    enabled: (config) => config.auth === "clerk",
+    files: () => [{ from: "extras/clerk", to: "." }],
+    slots: () => ({
+        PROVIDERS_IMPORTS: ['import { ClerkProvider } from "@clerk/nextjs";'],
+        PROVIDERS_WRAP: ["children = <ClerkProvider>{children}</ClerkProvider>;"],
+        TODOS_IMPORTS: ['import { auth } from "@/lib/auth";'],
+        TODOS_GUARD: [
+            "const { userId } = await auth();",
+            'if (!userId) return NextResponse.json({ error: "unauthorized" }, { status: 401 });'
+        ]
+    }),
+    dependencies: () => ({
+        web: { dependencies: { "@clerk/nextjs": "^6.33.0" } }
+    }),
+    env: () => [
+        {
+            title: "Clerk",
+            vars: [
+                {
+                    key: "NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY",
+                    value: "pk_test_change-me",
+                    schema: 'z.string().startsWith("pk_")'
+                },
+                { key: "CLERK_SECRET_KEY", value: "sk_test_change-me", schema: 'z.string().startsWith("sk_")' }
+            ]
+        }
+    ],
+    setup: ({ config }) => ({
+        sections: [
+            {
+                title: "Authentication (Clerk)",
+                body: `1. Create an application at [dashboard.clerk.com](https://dashboard.clerk.com)
+2. Copy its publishable and secret keys into \`NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY\` and \`CLERK_SECRET_KEY\` in \`.env\`
+
+\`${config.monorepo ? "apps/web/src" : "src"}/middleware.ts\` requires a signed-in user everywhere except the sign-in and sign-up pages in \`app/sign-in\` and \`app/sign-up\`. Route handlers call \`auth()\` from \`@/lib/auth\`, which returns a local test user under \`bun test\` (or with \`CLERK_TEST_MODE=1\` outside production) and the middleware then lets every request through, so tests run offline; switch users with \`setTestUser()\`.`
+            }
+        ]
+    })
+};
@@ -0,0 +1,147 @@
+import { hasMigrateTarget } from "../docker";
+import type { FeatureModule } from "./types";
+
+/** docker-compose.prod.yml is generated from the Dockerfiles and compose services, see `generateDeployment` */
+export const coolifyFeature: FeatureModule = {
+    id: "coolify",
+    label: "Coolify",
+    enabled: (config) => config.deployment === "coolify",
+    setup: ({ config }) => {
+        if (!config.docker) {
+            return {
+                sections: [
+                    {
+                        title: "Deployment (Coolify)",
+                        body: "Create a Coolify application from this repository using the Nixpacks build pack and set the environment variables from `.env.example`. Adding Docker to the project with the `add docker` command of the generator gives it Dockerfiles and a production compose file instead."
+                    }
+                ]
+            };
+        }
+        const websocket = config.realtime === "websocket";
+        const steps = [
+            "In Coolify, create a **Docker Compose** resource from this repository and set the compose file location to `/docker-compose.prod.yml`",
+            `Assign the domains of the ${websocket ? "`web` and `ws` services" : "`web` service"}; Coolify generates the passwords and wires the URLs between the services`,
+            "Fill in the variables Coolify lists as required, e.g. API keys",
+            ...(config.cicd
+                ? [
+                      "Copy the deploy webhook of the resource into the `COOLIFY_WEBHOOK` repository secret and an API token into `COOLIFY_TOKEN`; the Deploy workflow redeploys after CI passes on `main`"
+                  ]
+                : [])
+        ];
+        return {
+            sections: [
+                {
+                    title: "Deployment (Coolify)",
+                    body: `\`docker-compose.prod.yml\` runs the production stack: the web app${websocket ? ", the WebSocket service" : ""} and the containers of \`docker-compose.yml\`, with their data in named volumes.
+
+${steps.map((step, index) => `${index + 1}. ${step}`).join("\n")}${
+                        hasMigrateTarget(config)
+                            ? "\n\nThe `migrate` service applies the migrations before the web app starts, so commit them before deploying."
+                            : ""
+                    }`
+                }
+            ]
+        };
+    }
+};
+
+/** vercel.json is generated for the project's layout, see `generateDeployment` */
+export const vercelFeature: FeatureModule = {
+    id: "vercel",
+    label: "Vercel",
+    enabled: (config) => config.deployment === "vercel",
+    setup: ({ config }) => ({
+        sections: [
+            {
+                title: "Deployment (Vercel)",
+                body: `Import the repository in Vercel${config.monorepo ? " and set the root directory to `apps/web`; `apps/web/vercel.json` installs from the repository root and builds the web app with `turbo run build --filter=@ac/web`" : "; `vercel.json` sets the install and build commands"}. Add the variables from \`.env.example\` in the project settings${config.database !== "none" && config.database !== "sqlite" && !config.hasHostedDb ? ", with `DATABASE_URL` pointing at a hosted database as the containers of `docker-compose.yml` do not run on Vercel" : ""}.${
+                    config.realtime === "websocket"
+                        ? `
+
+> **Note:** Vercel runs serverless functions and cannot host the long-lived connections of the WebSocket service. Deploy \`${config.monorepo ? "apps/ws" : "ws"}\` separately, e.g. on Railway, Fly.io or a VPS, and set \`NEXT_PUBLIC_WS_URL\` and \`WS_INTERNAL_URL\` to its address.`
+                        : ""
+                }`
+            }
+        ]
+    })
+};
+
+/** railway.json is generated per service, see `generateDeployment` */
+export const railwayFeature: FeatureModule = {
+    id: "railway",
+    label: "Railway",
+    enabled: (config) => config.deployment === "railway",
+    setup: ({ config, pm }) => ({
+        sections: [
+            {
+                title: "Deployment (Railway)",
+                body: `1. Create a Railway project from this repository; the web service picks up \`railway.json\`${config.docker ? " and builds the Dockerfile" : ""}
+2. ${config.database !== "none" && config.database !== "sqlite" && !config.hasHostedDb ? "Add a database to the project and reference its connection string in the `DATABASE_URL` variable of the web service" : "Set the variables of the web service"}, then copy the remaining variables from \`.env.example\`
+${
+    config.realtime === "websocket"
+        ? `3. Add a second service from the same repository for the WebSocket server, set its config file path to \`/${config.monorepo ? "apps/ws" : "ws"}/railway.json\`, and point \`NEXT_PUBLIC_WS_URL\` and \`WS_INTERNAL_URL\` of the web service at its public and private domains
+`
+        : ""
+}
+${config.realtime === "websocket" ? "Both services are" : "The web service is"} health-checked on \`/health\`.${
+                    hasMigrateTarget(config)
+                        ? config.docker
+                            ? ` The web image has no migration tooling: apply the migrations with \`DATABASE_URL\` set to the database's public URL, e.g. \`DATABASE_URL=... ${pm} run ${config.orm === "prisma" ? "db:deploy" : "db:migrate"}\`, before deploying.`
+                            : " The migrations are applied before each deployment of the web service."
+                        : ""
+                }`
+            }
+        ]
+    })
+};
+
+/** The manifests in k8s/ are generated from the env schema and the Dockerfiles, see `generateKubernetesManifests` */
+export const kubernetesFeature: FeatureModule = {
+    id: "kubernetes",
+    label: "Kubernetes",
+    enabled: (config) => config.deployment === "kubernetes",
+    setup: ({ config }) => {
+        if (!config.docker) {
+            return {
+                sections: [
+                    {
+                        title: "Deployment (Kubernetes)",
+                        body: "The Kubernetes manifests run the Docker images of the project. Add Docker with the `add docker` command of the generator to get the Dockerfiles and the manifests in `k8s/`."
+                    }
+                ]
+            };
+        }
+        const web = config.monorepo ? "apps/web/Dockerfile" : "Dockerfile";
+        const websocket = config.realtime === "websocket";
+        const migrate = hasMigrateTarget(config);
+        const images = [
+            `docker build -f ${web} -t ghcr.io/your-org/${config.name}-web:latest .`,
+            ...(websocket
+                ? [
+                      `docker build -f ${config.monorepo ? "apps/ws/Dockerfile" : "ws/Dockerfile"} -t ghcr.io/your-org/${config.name}-ws:latest .`
+                  ]
+                : []),
+            ...(migrate
+                ? [`docker build -f ${web} --target migrate -t ghcr.io/your-org/${config.name}-migrate:latest .`]
+                : [])
+        ];
+        return {
+            sections: [
+                {
+                    title: "Deployment (Kubernetes)",
+                    body: `\`k8s/\` is a kustomize base: the web app${websocket ? " and the WebSocket service" : ""} as Deployments with \`/health\` probes, an Ingress for \`${config.name}.example.com\`${websocket ? " that routes `/ws` to the WebSocket service" : ""}, the variables of \`.env.example\` as a ConfigMap and a Secret${migrate ? ", and a Job that applies the migrations" : ""}.
+
+1. Build and push the images, passing the \`NEXT_PUBLIC_*\` variables to the web image as \`--build-arg\`:
+
+\`\`\`bash
+${images.join("\n")}
+\`\`\`
+
+2. Point \`images\` in \`k8s/kustomization.yaml\` at your registry and the Ingress at your domain
+3. Replace the \`change-me\` values in \`k8s/configmap.yaml\` and \`k8s/secret.yaml\`, and keep the real secrets out of git, e.g. with SOPS or a SealedSecret
+4. Apply the manifests: \`kubectl apply -k k8s\`${migrate ? `\n\nThe migration Job runs once; delete it with \`kubectl delete job ${config.name}-migrate -n ${config.name}\` before applying a new release.` : ""}`
+                }
+            ]
+        };
+    }
+};
@@ -0,0 +1,61 @@
+import type { ProjectConfig } from "../config";
+import { postHogFeature, plausibleFeature, umamiFeature } from "./analytics";
+import { appFeature, typescriptFeature } from "./app";
+import { clerkFeature, luciaFeature, nextAuthFeature } from "./auth";
+import { databaseFeatures, hostedDatabaseFeature } from "./database";
+import { coolifyFeature, kubernetesFeature, railwayFeature, vercelFeature } from "./deployment";
+import { mongodbFeature } from "./mongodb";
+import { drizzleFeature, memoryStoreFeature } from "./orm";
+import { prismaFeature } from "./prisma";
+import { caddyFeature, traefikFeature } from "./proxy";
+import { arcjetFeature, unkeyFeature, upstashFeature } from "./ratelimit";
+import { sseFeature, websocketFeature } from "./realtime";
+import { minioFeature, s3Feature, uploadThingFeature } from "./storage";
+import { shadcnFeature, tailwindFeature } from "./styling";
+import { cicdFeature, dockerFeature } from "./tooling";
+import type { FeatureModule } from "./types";
+
+export type * from "./types";
+
+/**
+ * Every feature module, in the order their contributions are applied. Later modules
+ * overwrite files of earlier ones and their slot snippets come after them.
+ */
+export const FEATURES: FeatureModule[] = [
+    ...databaseFeatures,
+    hostedDatabaseFeature,
+    appFeature,
+    drizzleFeature,
+    prismaFeature,
+    mongodbFeature,
+    memoryStoreFeature,
+    nextAuthFeature,
+    luciaFeature,
+    clerkFeature,
+    tailwindFeature,
+    shadcnFeature,
+    arcjetFeature,
+    upstashFeature,
+    unkeyFeature,
+    websocketFeature,
+    sseFeature,
+    minioFeature,
+    s3Feature,
+    uploadThingFeature,
+    postHogFeature,
+    plausibleFeature,
+    umamiFeature,
+    coolifyFeature,
+    vercelFeature,
+    railwayFeature,
+    kubernetesFeature,
+    caddyFeature,
+    traefikFeature,
+    cicdFeature,
+    dockerFeature,
+    typescriptFeature
+];
+
+export function enabledFeatures(config: ProjectConfig): FeatureModule[] {
+    return FEATURES.filter((feature) => feature.enabled(config));
+}
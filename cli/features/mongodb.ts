@@ -0,0 +1,29 @@
+import type { FeatureModule } from "./types";
+
+/**
+ * MongoDB data layer on the native driver. Drizzle has no MongoDB support, so this replaces
+ * it (or the lack of an ORM); Prisma projects keep Prisma's own MongoDB connector.
+ */
+export const mongodbFeature: FeatureModule = {
+    id: "mongodb-driver",
+    label: "MongoDB driver",
+    enabled: (config) => config.database === "mongodb" && config.orm !== "prisma",
+    files: () => [{ from: "extras/mongodb", to: "." }],
+    slots: ({ config, dbImport }) => ({
+        TODOS_IMPORTS: [`import { createTodo, listTodos } from "${dbImport}";`],
+        TODOS_LIST: ["const data = await listTodos(50);"],
+        TODOS_CREATE: ["const inserted = await createTodo({ title: parsed.data.title });"],
+        TRANSPILE_PACKAGES: config.monorepo ? ['"@ac/db",'] : []
+    }),
+    dependencies: ({ config }) => ({
+        web: { dependencies: config.monorepo ? { "@ac/db": "workspace:*" } : undefined }
+    }),
+    setup: ({ config }) => ({
+        steps: [
+            {
+                title: "Setup Database",
+                body: `MongoDB needs no migrations: the \`todos\` collection and its indexes are created on first use. Add collections and their indexes in \`${config.monorepo ? "packages/db/src" : "src/db"}/client.${config.language === "typescript" ? "ts" : "js"}\`.`
+            }
+        ]
+    })
+};
@@ -0,0 +1,111 @@
+import type { ProjectConfig } from "../config";
+import { mongodbFeature } from "./mongodb";
+import { prismaFeature } from "./prisma";
+import type { DependencySet, FeatureModule } from "./types";
+
+/** Drizzle dialect and driver of each database Drizzle supports */
+const DRIZZLE_DIALECTS: Partial<
+    Record<ProjectConfig["database"], { dialect: "postgresql" | "mysql" | "sqlite"; driver: DependencySet }>
+> = {
+    postgres: { dialect: "postgresql", driver: { dependencies: { pg: "^8.12.0" } } },
+    mysql: { dialect: "mysql", driver: { dependencies: { mysql2: "^3.15.2" } } },
+    mariadb: { dialect: "mysql", driver: { dependencies: { mysql2: "^3.15.2" } } },
+    sqlite: { dialect: "sqlite", driver: { dependencies: { "@libsql/client": "^0.15.15" } } }
+};
+
+export const drizzleFeature: FeatureModule = {
+    id: "drizzle",
+    label: "Drizzle ORM",
+    enabled: (config) => config.orm === "drizzle" && config.database in DRIZZLE_DIALECTS,
+    files: ({ config }) => {
+        const dir = `extras/drizzle/dialects/${DRIZZLE_DIALECTS[config.database]!.dialect}`;
+        return [
+            { from: "extras/drizzle/drizzle.config.ts", to: "drizzle.config.ts" },
+            { from: "extras/drizzle/packages", to: "packages" },
+            { from: `${dir}/client.ts`, to: "packages/db/src/client.ts" },
+            { from: `${dir}/schema.ts`, to: "packages/db/src/schema.ts" },
+            ...(config.database === "sqlite" ? [{ from: `${dir}/url.ts`, to: "packages/db/src/url.ts" }] : []),
+            ...(config.auth === "nextauth" || config.auth === "lucia"
+                ? [{ from: `${dir}/${config.auth}-schema.ts`, to: "packages/db/src/auth-schema.ts" }]
+                : [])
+        ];
+    },
+    slots: ({ config, dbImport }) => ({
+        TODOS_IMPORTS: [`import { createTodo, db } from "${dbImport}";`],
+        TODOS_LIST: [
+            "const data = await db.query.todos.findMany({ limit: 50, orderBy: (t, { desc }) => [desc(t.createdAt)] });"
+        ],
+        // Inserts go through the client's createTodo since MySQL has no RETURNING clause
+        TODOS_CREATE: ["const inserted = await createTodo({ title: parsed.data.title });"],
+        TRANSPILE_PACKAGES: config.monorepo ? ['"@ac/db",'] : [],
+        DRIZZLE_CONFIG: [
+            `dialect: "${DRIZZLE_DIALECTS[config.database]!.dialect}",`,
+            `schema: "./${config.monorepo ? "packages/db/src" : "src/db"}/schema.${config.language === "typescript" ? "ts" : "js"}",`
+        ],
+        // SQLite resolves a relative file: URL the same way as the app does
+        ...(config.database === "sqlite"
+            ? {
+                  DRIZZLE_CONFIG_IMPORTS: [
+                      `import { databaseUrl } from "./${config.monorepo ? "packages/db/src" : "src/db"}/url";`
+                  ],
+                  DRIZZLE_CREDENTIALS: ["dbCredentials: { url: databaseUrl() },"],
+                  DB_ROOT: [
+                      `const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "${config.monorepo ? "../../.." : "../.."}");`
+                  ]
+              }
+            : { DRIZZLE_CREDENTIALS: ["dbCredentials: { url: process.env.DATABASE_URL! },"] }),
+        DB_SCHEMA: config.auth === "nextauth" || config.auth === "lucia" ? ['export * from "./auth-schema";'] : []
+    }),
+    dependencies: ({ config }) => ({
+        web: { dependencies: { ...(config.monorepo ? { "@ac/db": "workspace:*" } : {}), "drizzle-orm": "^0.44.6" } },
+        db: DRIZZLE_DIALECTS[config.database]!.driver
+    }),
+    scripts: ({ pmx }) => ({
+        "db:generate": `${pmx} drizzle-kit generate`,
+        "db:migrate": `${pmx} drizzle-kit migrate`,
+        "db:studio": `${pmx} drizzle-kit studio`
+    }),
+    setup: ({ pmx }) => ({
+        steps: [
+            {
+                title: "Setup Database",
+                body: `Generate and run database migrations:
+\`\`\`bash
+# Generate migration files
+${pmx} drizzle-kit generate
+
+# Apply migrations
+${pmx} drizzle-kit migrate
+
+# Optional: Open Drizzle Studio to view database
+${pmx} drizzle-kit studio
+\`\`\``
+            }
+        ],
+        commands: [
+            {
+                title: "Database (Drizzle)",
+                lines: [
+                    `${pmx} drizzle-kit generate  # Generate migrations`,
+                    `${pmx} drizzle-kit migrate   # Apply migrations`,
+                    `${pmx} drizzle-kit studio    # Open Drizzle Studio`
+                ]
+            }
+        ]
+    })
+};
+
+/**
+ * Keeps the todos example working when no ORM module provides a data layer.
+ */
+export const memoryStoreFeature: FeatureModule = {
+    id: "memory-store",
+    label: "In-memory todo store",
+    enabled: (config) => ![drizzleFeature, prismaFeature, mongodbFeature].some((feature) => feature.enabled(config)),
+    files: () => [{ from: "extras/memory-store", to: "." }],
+    slots: () => ({
+        TODOS_IMPORTS: ['import { createTodo, listTodos } from "@/lib/todos";'],
+        TODOS_LIST: ["const data = await listTodos(50);"],
+        TODOS_CREATE: ["const inserted = await createTodo(parsed.data.title);"]
+    })
+};
@@ -0,0 +1,193 @@
+import type { ProjectConfig } from "../config";
+import type { FeatureModule } from "./types";
+
+type Database = Exclude<ProjectConfig["database"], "none">;
+
+/** Prisma datasource provider of each database */
+const PROVIDERS: Record<Database, string> = {
+    postgres: "postgresql",
+    mysql: "mysql",
+    mariadb: "mysql",
+    sqlite: "sqlite",
+    mssql: "sqlserver",
+    mongodb: "mongodb"
+};
+
+/**
+ * Renders schema.prisma for the chosen datasource: the `todos` model, plus the Auth.js
+ * models used by `@auth/prisma-adapter` when NextAuth is enabled or the users and sessions
+ * of the Lucia-style auth.
+ */
+export function prismaSchema(config: ProjectConfig): string {
+    const database = config.database as Database;
+    const mongo = database === "mongodb";
+    // MongoDB documents are keyed by ObjectId and have no compound primary keys
+    const objectId = mongo ? " @db.ObjectId" : "";
+    const mongoId = '@id @default(auto()) @map("_id") @db.ObjectId';
+    // Models keyed by their natural key elsewhere still need an `_id` on MongoDB
+    const documentId = (width: number) => (mongo ? `  ${"id".padEnd(width)} String   ${mongoId}\n` : "");
+    // OAuth tokens outgrow the default string column on MySQL and SQL Server
+    const longText =
+        { mysql: " @db.Text", mariadb: " @db.Text", mssql: " @db.NVarChar(Max)" }[database as string] ?? "";
+
+    const blocks = [
+        `generator client {
+  provider = "prisma-client-js"
+}`,
+        `datasource db {
+  provider = "${PROVIDERS[database]}"
+  url      = env("DATABASE_URL")
+}`,
+        `model Todo {
+  id        ${mongo ? `String   ${mongoId}` : "Int      @id @default(autoincrement())"}
+  title     String
+  completed Boolean  @default(false)
+  createdAt DateTime @default(now()) @map("created_at")
+
+  @@map("todos")
+}`
+    ];
+
+    if (config.auth === "nextauth") {
+        blocks.push(
+            `model User {
+  id            String    ${mongo ? mongoId : "@id @default(cuid())"}
+  name          String?
+  email         String?   @unique
+  emailVerified DateTime?
+  image         String?
+  accounts      Account[]
+  sessions      Session[]
+  createdAt     DateTime  @default(now())
+  updatedAt     DateTime  @updatedAt
+}`,
+            `model Account {
+${documentId(17)}  userId            String${objectId}
+  type              String
+  provider          String
+  providerAccountId String
+  refresh_token     String?${longText}
+  access_token      String?${longText}
+  expires_at        Int?
+  token_type        String?
+  scope             String?
+  id_token          String?${longText}
+  session_state     String?
+  createdAt         DateTime @default(now())
+  updatedAt         DateTime @updatedAt
+
+  user User @relation(fields: [userId], references: [id], onDelete: Cascade)
+
+  ${mongo ? "@@unique" : "@@id"}([provider, providerAccountId])
+}`,
+            `model Session {
+${documentId(12)}  sessionToken String   @unique
+  userId       String${objectId}
+  expires      DateTime
+  createdAt    DateTime @default(now())
+  updatedAt    DateTime @updatedAt
+
+  user User @relation(fields: [userId], references: [id], onDelete: Cascade)
+}`,
+            `model VerificationToken {
+${documentId(10)}  identifier String
+  token      String
+  expires    DateTime
+
+  ${mongo ? "@@unique" : "@@id"}([identifier, token])
+}`
+        );
+    }
+
+    if (config.auth === "lucia") {
+        // Ids are generated by the app: a UUID per user, the token hash per session
+        const appId = mongo ? '@id @map("_id")' : "@id";
+        blocks.push(
+            `model User {
+  id           String    ${appId}
+  email        String    @unique
+  passwordHash String    @map("password_hash")
+  sessions     Session[]
+  createdAt    DateTime  @default(now()) @map("created_at")
+
+  @@map("users")
+}`,
+            `model Session {
+  id        String   ${appId}
+  userId    String   @map("user_id")
+  expiresAt DateTime @map("expires_at")
+
+  user User @relation(fields: [userId], references: [id], onDelete: Cascade)
+
+  @@map("sessions")
+}`
+        );
+    }
+
+    return blocks.join("\n\n") + "\n";
+}
+
+export const prismaFeature: FeatureModule = {
+    id: "prisma",
+    label: "Prisma",
+    enabled: (config) => config.database !== "none" && config.orm === "prisma",
+    files: ({ config }) => [
+        { from: "extras/prisma", to: "." },
+        { to: "packages/db/prisma/schema.prisma", content: prismaSchema(config) }
+    ],
+    slots: ({ config, dbImport }) => ({
+        TODOS_IMPORTS: [`import { db } from "${dbImport}";`],
+        TODOS_LIST: ['const data = await db.todo.findMany({ take: 50, orderBy: { createdAt: "desc" } });'],
+        TODOS_CREATE: ["const inserted = await db.todo.create({ data: { title: parsed.data.title } });"],
+        TRANSPILE_PACKAGES: config.monorepo ? ['"@ac/db",'] : []
+    }),
+    // In the monorepo @prisma/client comes with the @ac/db package
+    dependencies: ({ config }) => ({
+        root: { devDependencies: { prisma: "^6.17.1" } },
+        web: {
+            dependencies: { ...(config.monorepo ? { "@ac/db": "workspace:*" } : { "@prisma/client": "^6.17.1" }) }
+        }
+    }),
+    scripts: ({ config }) => {
+        // The single app keeps its schema at Prisma's default location, prisma/schema.prisma
+        const schema = config.monorepo ? " --schema packages/db/prisma/schema.prisma" : "";
+        return {
+            postinstall: `prisma generate${schema}`,
+            "db:generate": `prisma generate${schema}`,
+            // MongoDB has no migrations; the schema is pushed instead
+            "db:migrate": config.database === "mongodb" ? `prisma db push${schema}` : `prisma migrate dev${schema}`,
+            // Applies the committed migrations without creating new ones, as CI and deployments need
+            "db:deploy":
+                config.database === "mongodb"
+                    ? `prisma db push --skip-generate${schema}`
+                    : `prisma migrate deploy${schema}`,
+            "db:studio": `prisma studio${schema}`
+        };
+    },
+    setup: ({ config, pm }) => ({
+        steps: [
+            {
+                title: "Setup Database",
+                body: `The Prisma Client is generated on install. Create the tables with:
+\`\`\`bash
+${pm} run db:migrate
+
+# Optional: Open Prisma Studio to view database
+${pm} run db:studio
+\`\`\`
+
+The schema lives in \`${config.monorepo ? "packages/db/" : ""}prisma/schema.prisma\`.`
+            }
+        ],
+        commands: [
+            {
+                title: "Database (Prisma)",
+                lines: [
+                    `${pm} run db:migrate   # ${config.database === "mongodb" ? "Push schema" : "Create & apply migration"}`,
+                    `${pm} run db:studio    # Open Prisma Studio`,
+                    `${pm} run db:generate  # Generate Prisma Client`
+                ]
+            }
+        ]
+    })
+};
@@ -0,0 +1,75 @@
+import type { ProjectConfig } from "../config";
+import { reverseProxy } from "../deploy";
+import { hasMigrateTarget } from "../docker";
+import type { FeatureContext, FeatureModule, SetupContribution } from "./types";
+
+/** Routes `/ws` to the WebSocket service; Caddy passes the Upgrade and Connection headers through */
+function caddyfile(config: ProjectConfig): string {
+    const routes =
+        config.realtime === "websocket"
+            ? `	handle /ws* {
+		reverse_proxy ws:4001
+	}
+
+	handle {
+		reverse_proxy web:3000
+	}`
+            : "	reverse_proxy web:3000";
+    return `# Serves docker-compose.prod.yml on DOMAIN; Caddy obtains and renews its certificate
+{$DOMAIN} {
+	encode zstd gzip
+
+${routes}
+}
+`;
+}
+
+/** The "Self-Hosting" section of either proxy: DNS, the env file, then `docker compose up` */
+function selfHostingSetup({ config }: FeatureContext, label: string): SetupContribution {
+    const title = `Self-Hosting (${label})`;
+    if (!reverseProxy(config)) {
+        return {
+            sections: [
+                {
+                    title,
+                    body: `${label} fronts the self-hosted production stack, which is generated for projects with Docker and without a deployment target. Add Docker with the \`add docker\` command of the generator, or remove the deployment target, to get \`docker-compose.prod.yml\`.`
+                }
+            ]
+        };
+    }
+    const websocket = config.realtime === "websocket";
+    const variables = config.proxy === "traefik" ? "`DOMAIN`, `ACME_EMAIL` for Let's Encrypt" : "`DOMAIN`";
+    return {
+        sections: [
+            {
+                title,
+                body: `\`docker-compose.prod.yml\` runs the production stack behind ${label}, which obtains a Let's Encrypt certificate for your domain and serves the web app${websocket ? " and, under `/ws`, the WebSocket service on the same origin" : " on it"}.
+
+1. Point the DNS record of your domain at the server and open ports 80 and 443
+2. Copy \`.env.production.example\` to \`.env.production\` and fill in ${variables} and the passwords, e.g. from \`openssl rand -hex 32\`
+3. Start the stack: \`docker compose -f docker-compose.prod.yml --env-file .env.production up -d --build\`${
+                    hasMigrateTarget(config)
+                        ? "\n\nThe `migrate` service applies the migrations before the web app starts, so commit them before deploying."
+                        : ""
+                }`
+            }
+        ]
+    };
+}
+
+/** The Caddyfile is generated here, the compose service in `generateDeployment` */
+export const caddyFeature: FeatureModule = {
+    id: "caddy",
+    label: "Caddy",
+    enabled: (config) => config.proxy === "caddy",
+    files: ({ config }) => (reverseProxy(config) ? [{ to: "Caddyfile", content: caddyfile(config) }] : []),
+    setup: (ctx) => selfHostingSetup(ctx, "Caddy")
+};
+
+/** Traefik is configured by its command flags and the labels of the services, see `generateDeployment` */
+export const traefikFeature: FeatureModule = {
+    id: "traefik",
+    label: "Traefik",
+    enabled: (config) => config.proxy === "traefik",
+    setup: (ctx) => selfHostingSetup(ctx, "Traefik")
+};
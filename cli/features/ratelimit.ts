@@ -0,0 +1,55 @@
+import type { FeatureModule, Slot } from "./types";
+
+/** Every provider ships `@/lib/ratelimit` with the same `rateLimit(req)` signature */
+const guard: Partial<Record<Slot, string[]>> = {
+    TODOS_IMPORTS: ['import { rateLimit } from "@/lib/ratelimit";'],
+    TODOS_GUARD: ['if (!(await rateLimit(req))) return NextResponse.json({ error: "rate_limited" }, { status: 429 });']
+};
+
+export const arcjetFeature: FeatureModule = {
+    id: "arcjet",
+    label: "Arcjet",
+    enabled: (config) => config.ratelimit === "arcjet",
+    files: () => [{ from: "extras/arcjet", to: "." }],
+    slots: () => guard,
+    dependencies: () => ({
+        web: { dependencies: { "@arcjet/next": "^1.0.0-alpha.25" } }
+    }),
+    env: () => [
+        { title: "Arcjet Rate Limiting", vars: [{ key: "ARCJET_KEY", value: "", schema: "z.string().optional()" }] }
+    ]
+};
+
+export const upstashFeature: FeatureModule = {
+    id: "upstash",
+    label: "Upstash Ratelimit",
+    enabled: (config) => config.ratelimit === "upstash",
+    files: () => [{ from: "extras/upstash", to: "." }],
+    slots: () => guard,
+    dependencies: () => ({
+        web: { dependencies: { "@upstash/ratelimit": "^2.0.4", "@upstash/redis": "^1.34.3" } }
+    }),
+    env: () => [
+        {
+            title: "Upstash Rate Limiting",
+            vars: [
+                { key: "UPSTASH_REDIS_REST_URL", value: "", schema: "z.string().url().optional()" },
+                { key: "UPSTASH_REDIS_REST_TOKEN", value: "", schema: "z.string().optional()" }
+            ]
+        }
+    ]
+};
+
+export const unkeyFeature: FeatureModule = {
+    id: "unkey",
+    label: "Unkey",
+    enabled: (config) => config.ratelimit === "unkey",
+    files: () => [{ from: "extras/unkey", to: "." }],
+    slots: () => guard,
+    dependencies: () => ({
+        web: { dependencies: { "@unkey/ratelimit": "^2.1.4" } }
+    }),
+    env: () => [
+        { title: "Unkey Rate Limiting", vars: [{ key: "UNKEY_ROOT_KEY", value: "", schema: "z.string().optional()" }] }
+    ]
+};
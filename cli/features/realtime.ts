@@ -0,0 +1,88 @@
+import type { FeatureModule } from "./types";
+
+export const websocketFeature: FeatureModule = {
+    id: "websocket",
+    label: "WebSocket (Fastify service)",
+    enabled: (config) => config.realtime === "websocket",
+    files: () => [{ from: "extras/websocket/ws", to: "apps/ws" }],
+    slots: () => ({
+        TODOS_CREATED: [
+            `// Realtime broadcast to WebSocket service
+if (process.env.WS_INTERNAL_URL) {
+    await fetch(process.env.WS_INTERNAL_URL + "/events/todo-created", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(inserted)
+    }).catch(() => {
+        // Silent fail if WS service is not available
+    });
+}`
+        ],
+        PAGE_EFFECT: [
+            `
+// WebSocket for realtime updates
+const socket = new WebSocket(process.env.NEXT_PUBLIC_WS_URL! + "/ws");
+socket.onmessage = (ev) => {
+    try {
+        const msg = JSON.parse(ev.data);
+        if (msg.type === "todo:created") {
+            setTodos((prev) => (prev.some((t) => t.id === msg.payload.id) ? prev : [msg.payload, ...prev]));
+        }
+    } catch {}
+};
+return () => socket.close();`
+        ]
+    }),
+    env: () => [
+        {
+            title: "WebSocket Realtime",
+            vars: [
+                { key: "NEXT_PUBLIC_WS_URL", value: "ws://localhost:4001", schema: "z.string().url()" },
+                { key: "WS_INTERNAL_URL", value: "http://localhost:4001", schema: "z.string().url().optional()" }
+            ]
+        }
+    ],
+    scripts: ({ config }): Record<string, string> =>
+        config.monorepo ? {} : { "dev:ws": "bun run ws/server.ts", "start:ws": "bun run ws/server.ts" },
+    setup: ({ config, pm }) => ({
+        accessPoints: [{ label: "WebSocket Server", url: "ws://localhost:4001" }],
+        // Turborepo starts apps/ws together with the web app; a single app runs it separately
+        commands: config.monorepo
+            ? []
+            : [{ title: "WebSocket Server", lines: [`${pm} run dev:ws       # Start WebSocket server`] }]
+    })
+};
+
+/**
+ * Realtime over Server-Sent Events from the Next.js app itself, without a separate service
+ */
+export const sseFeature: FeatureModule = {
+    id: "sse",
+    label: "Server-Sent Events",
+    enabled: (config) => config.realtime === "sse",
+    files: () => [{ from: "extras/sse", to: "." }],
+    slots: () => ({
+        TODOS_IMPORTS: ['import { publish } from "@/lib/events";'],
+        TODOS_CREATED: ['publish({ type: "todo:created", payload: inserted });'],
+        PAGE_EFFECT: [
+            `
+// Server-Sent Events for realtime updates
+const events = new EventSource("/api/events");
+events.addEventListener("todo:created", (ev) => {
+    const todo = JSON.parse((ev as MessageEvent).data);
+    setTodos((prev) => (prev.some((t) => t.id === todo.id) ? prev : [todo, ...prev]));
+});
+return () => events.close();`
+        ]
+    }),
+    setup: ({ config }) => ({
+        sections: [
+            {
+                title: "Realtime (Server-Sent Events)",
+                body: `\`GET /api/events\` streams events to the browser; the home page listens with an \`EventSource\`. Publish from any route handler with \`publish()\` from \`${config.monorepo ? "apps/web/src" : "src"}/lib/events\`, as the todos route does with \`todo:created\`.
+
+The broadcaster is in-process: events only reach clients connected to the same server instance. That suits a single container; for several instances, use the WebSocket service instead.`
+            }
+        ]
+    })
+};
@@ -0,0 +1,94 @@
+import type { FeatureModule } from "./types";
+
+const s3Dependencies = { web: { dependencies: { "@aws-sdk/client-s3": "^3.679.0" } } };
+
+export const minioFeature: FeatureModule = {
+    id: "minio",
+    label: "MinIO (dev) / S3 (prod)",
+    enabled: (config) => config.storage === "minio",
+    files: () => [{ from: "extras/storage", to: "." }],
+    dependencies: () => s3Dependencies,
+    env: ({ secret }) => [
+        {
+            title: "MinIO Storage",
+            vars: [
+                { key: "S3_ENDPOINT", value: "http://localhost:9000", schema: "z.string().url()" },
+                { key: "S3_REGION", value: "us-east-1", schema: "z.string().min(1)" },
+                { key: "S3_ACCESS_KEY_ID", value: "minio", schema: "z.string().min(1)" },
+                { key: "S3_SECRET_ACCESS_KEY", value: secret("MINIO_ROOT_PASSWORD"), schema: "z.string().min(1)" },
+                { key: "S3_BUCKET", value: "uploads", schema: "z.string().min(1)" }
+            ]
+        }
+    ],
+    services: ({ secret }) => [
+        {
+            name: "minio",
+            label: "MinIO (S3-compatible storage)",
+            service: {
+                image: "minio/minio:latest",
+                environment: { MINIO_ROOT_USER: "minio", MINIO_ROOT_PASSWORD: secret("MINIO_ROOT_PASSWORD") },
+                command: 'server /data --console-address ":9001"',
+                ports: ["9000:9000", "9001:9001"],
+                volumes: ["./_data/minio:/data"],
+                healthcheck: {
+                    test: ["CMD", "curl", "-f", "http://localhost:9000/minio/health/live"],
+                    interval: "5s",
+                    timeout: "5s",
+                    retries: 5
+                }
+            },
+            note: "Access MinIO Console at: http://localhost:9001 (login: `minio` and the `S3_SECRET_ACCESS_KEY` from `.env`)"
+        }
+    ],
+    setup: () => ({
+        accessPoints: [
+            { label: "MinIO Console", url: "http://localhost:9001" },
+            { label: "MinIO API", url: "http://localhost:9000" }
+        ]
+    })
+};
+
+export const s3Feature: FeatureModule = {
+    id: "s3",
+    label: "AWS S3",
+    enabled: (config) => config.storage === "s3",
+    files: () => [{ from: "extras/storage", to: "." }],
+    dependencies: () => s3Dependencies,
+    env: () => [
+        {
+            title: "AWS S3 Storage",
+            vars: [
+                // Left empty for AWS itself; set for other S3-compatible providers
+                { key: "S3_ENDPOINT", value: "", schema: "z.string().url().optional()" },
+                { key: "S3_REGION", value: "us-east-1", schema: "z.string().min(1)" },
+                { key: "S3_ACCESS_KEY_ID", value: "your-access-key", schema: "z.string().min(1)" },
+                { key: "S3_SECRET_ACCESS_KEY", value: "your-secret-key", schema: "z.string().min(1)" },
+                { key: "S3_BUCKET", value: "your-bucket", schema: "z.string().min(1)" }
+            ]
+        }
+    ]
+};
+
+export const uploadThingFeature: FeatureModule = {
+    id: "uploadthing",
+    label: "UploadThing",
+    enabled: (config) => config.storage === "uploadthing",
+    files: () => [{ from: "extras/uploadthing", to: "." }],
+    dependencies: () => ({
+        web: { dependencies: { uploadthing: "^7.7.4", "@uploadthing/react": "^7.3.3" } }
+    }),
+    env: () => [
+        {
+            title: "UploadThing",
+            vars: [{ key: "UPLOADTHING_TOKEN", value: "your-uploadthing-token", schema: "z.string().min(1)" }]
+        }
+    ],
+    setup: () => ({
+        sections: [
+            {
+                title: "File Uploads (UploadThing)",
+                body: `Create an app at https://uploadthing.com, copy its token into \`UPLOADTHING_TOKEN\` and define upload routes in \`apps/web/src/app/api/uploadthing/core.ts\`.`
+            }
+        ]
+    })
+};
@@ -0,0 +1,43 @@
+import type { FeatureModule } from "./types";
+
+export const tailwindFeature: FeatureModule = {
+    id: "tailwind",
+    label: "Tailwind CSS",
+    // shadcn/ui is built on Tailwind, so it pulls this module in as well
+    enabled: (config) => config.styling === "tailwind" || config.styling === "shadcn",
+    files: () => [{ from: "extras/tailwind", to: "." }],
+    slots: () => ({
+        GLOBALS_CSS: ["@tailwind base;", "@tailwind components;", "@tailwind utilities;"]
+    }),
+    dependencies: () => ({
+        web: {
+            devDependencies: { autoprefixer: "^10.4.20", postcss: "^8.4.47", tailwindcss: "^3.4.14" }
+        }
+    })
+};
+
+export const shadcnFeature: FeatureModule = {
+    id: "shadcn",
+    label: "shadcn/ui",
+    enabled: (config) => config.styling === "shadcn",
+    files: () => [{ from: "extras/shadcn", to: "." }],
+    dependencies: () => ({
+        web: {
+            dependencies: {
+                "@radix-ui/react-slot": "^1.1.0",
+                "class-variance-authority": "^0.7.1",
+                clsx: "^2.1.1",
+                "lucide-react": "^0.460.0",
+                "tailwind-merge": "^2.5.4"
+            }
+        }
+    }),
+    setup: ({ pmx }) => ({
+        commands: [
+            {
+                title: "UI Components (shadcn/ui)",
+                lines: [`cd apps/web && ${pmx} shadcn@latest add card  # Add a component`]
+            }
+        ]
+    })
+};
@@ -0,0 +1,61 @@
+import { hasMigrateTarget } from "../docker";
+import type { FeatureModule } from "./types";
+
+/** ci.yml is generated for the selected stack, see `generateWorkflow` */
+export const cicdFeature: FeatureModule = {
+    id: "cicd",
+    label: "GitHub Actions",
+    enabled: (config) => config.cicd,
+    files: ({ config }) => [
+        { from: "extras/cicd/.github/workflows/update-deps.yml", to: ".github/workflows/update-deps.yml" },
+        // The deploy workflow triggers the Coolify deployment of docker-compose.prod.yml
+        ...(config.docker && config.deployment === "coolify"
+            ? [{ from: "extras/cicd/.github/workflows/deploy.yml", to: ".github/workflows/deploy.yml" }]
+            : [])
+    ]
+};
+
+/** The Dockerfiles are generated for the selected stack, see `generateDockerfiles` */
+export const dockerFeature: FeatureModule = {
+    id: "docker",
+    label: "Docker",
+    enabled: (config) => config.docker,
+    files: () => [{ from: "extras/docker/.dockerignore", to: ".dockerignore" }],
+    slots: ({ config }) => ({
+        NEXT_CONFIG_IMPORTS: config.monorepo ? ['import { fileURLToPath } from "node:url";'] : [],
+        NEXT_CONFIG: [
+            'output: "standalone",',
+            ...(config.monorepo
+                ? [
+                      "// Traces the workspace packages into the standalone output",
+                      'outputFileTracingRoot: fileURLToPath(new URL("../../", import.meta.url)),'
+                  ]
+                : [])
+        ]
+    }),
+    setup: ({ config, pm }) => {
+        const web = config.monorepo ? "apps/web/Dockerfile" : "Dockerfile";
+        const ws = config.monorepo ? "apps/ws/Dockerfile" : "ws/Dockerfile";
+        const migrate = hasMigrateTarget(config);
+        return {
+            sections: [
+                {
+                    title: "Production Images",
+                    body: `Build the images from the project root:
+
+\`\`\`bash
+docker build -f ${web} -t ${config.name}-web .${config.realtime === "websocket" ? `\ndocker build -f ${ws} -t ${config.name}-ws .` : ""}
+\`\`\`
+
+The web image runs the Next.js standalone server on port 3000 as a non-root user and its healthcheck probes \`/health\`. Pass the \`NEXT_PUBLIC_*\` variables as \`--build-arg\`, since they are compiled into the browser bundle; every other variable is read when the container starts.${
+                        migrate
+                            ? `
+
+\`docker build -f ${web} --target migrate -t ${config.name}-migrate .\` builds an image that runs \`${pm} run ${config.orm === "prisma" ? "db:deploy" : "db:migrate"}\` and exits; run it with \`DATABASE_URL\` set before each deploy.`
+                            : ""
+                    }`
+                }
+            ]
+        };
+    }
+};
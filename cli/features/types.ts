@@ -0,0 +1,134 @@
+import type { ProjectConfig } from "../config";
+
+export interface FeatureContext {
+    config: ProjectConfig;
+    /** Package manager command, e.g. `bun` */
+    pm: string;
+    /** Package runner, e.g. `bunx` */
+    pmx: string;
+    /** Import specifier of the database client: `@ac/db` in the monorepo, `@/db/client` in a single app */
+    dbImport: string;
+    /** Random secret of the project by name, the same wherever it is used; a placeholder in .env.example */
+    secret: (name: string) => string;
+}
+
+/**
+ * Workspaces a feature can add dependencies to. In the monorepo layout these map to
+ * the root, `apps/web`, `packages/db`, `packages/analytics` and `apps/ws` package.json
+ * files; a single app has only the root package.json.
+ */
+export type Workspace = "root" | "web" | "db" | "analytics" | "ws";
+
+export interface DependencySet {
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+}
+
+/**
+ * A file the feature adds. `from` is relative to `cli-templates` and may be a directory;
+ * `to` is relative to the project root in the monorepo layout. The single-app layout moves
+ * `apps/web/*` to the root, `packages/db/src/*` to `src/db/*`, `packages/db/prisma/*` to
+ * `prisma/*`, `packages/analytics/src/*` to `src/analytics/*` and `apps/ws/src/*` to `ws/*`.
+ */
+export type FileSpec = { from: string; to: string } | { to: string; content: string };
+
+/**
+ * Named insertion points in the base templates. A line holding only `// {{NAME}}`,
+ * `{/* {{NAME}} *\/}` or `/* {{NAME}} *\/` is replaced by every snippet contributed to it.
+ * `PROVIDERS_WRAP` snippets wrap the app in a context provider by reassigning `children`.
+ */
+export type Slot =
+    | "TODOS_IMPORTS"
+    | "TODOS_GUARD"
+    | "TODOS_LIST"
+    | "TODOS_CREATE"
+    | "TODOS_CREATED"
+    | "PAGE_EFFECT"
+    | "PROVIDERS_IMPORTS"
+    | "PROVIDERS_HOOKS"
+    | "PROVIDERS_WRAP"
+    | "LAYOUT_IMPORTS"
+    | "LAYOUT_BODY"
+    | "GLOBALS_CSS"
+    | "NEXT_CONFIG_IMPORTS"
+    | "NEXT_CONFIG"
+    | "TRANSPILE_PACKAGES"
+    | "DRIZZLE_CONFIG_IMPORTS"
+    | "DRIZZLE_CONFIG"
+    | "DRIZZLE_CREDENTIALS"
+    | "DB_SCHEMA"
+    | "DB_ROOT"
+    | "AUTH_IMPORTS"
+    | "AUTH_PROVIDERS"
+    | "AUTH_OPTIONS"
+    | "AUTH_STORE_IMPORTS"
+    | "ANALYTICS_EXPORTS"
+    | "ANALYTICS_IMPORTS"
+    | "ANALYTICS_PROVIDER";
+
+export interface EnvVar {
+    key: string;
+    /** Value in .env.example; an empty value leaves an optional variable unset */
+    value: string;
+    /** zod schema of the variable in env.ts, e.g. `z.string().url()` */
+    schema: string;
+}
+
+/**
+ * A block of variables in .env.example, rendered under a `# title` comment. The same
+ * variables make up env.ts: `NEXT_PUBLIC_*` ones its client schema, the rest its server schema.
+ */
+export interface EnvGroup {
+    title: string;
+    vars: EnvVar[];
+}
+
+export interface ComposeService {
+    image: string;
+    entrypoint?: string[];
+    command?: string;
+    environment?: Record<string, string>;
+    ports?: string[];
+    volumes?: string[];
+    depends_on?: string[];
+    healthcheck?: { test: string[]; interval?: string; timeout?: string; retries?: number };
+}
+
+export interface ServiceDefinition {
+    /** Service key in docker-compose.yml */
+    name: string;
+    label: string;
+    service: ComposeService;
+    /** Printed under the service's `docker run` alternative in SETUP.md */
+    note?: string;
+    /** Only runs locally; `docker-compose.prod.yml` leaves it out */
+    devOnly?: boolean;
+}
+
+export interface SetupContribution {
+    /** Numbered "Quick Start" steps, placed after dependency install and services */
+    steps?: { title: string; body: string }[];
+    accessPoints?: { label: string; url: string }[];
+    /** Grouped entries of the "Useful Commands" block */
+    commands?: { title: string; lines: string[] }[];
+    /** Top-level sections placed before "Troubleshooting" */
+    sections?: { title: string; body: string }[];
+    troubleshooting?: { title: string; body: string }[];
+}
+
+/**
+ * One selectable piece of the stack. The generator collects the contributions of every
+ * enabled module, so adding an option means adding a module rather than editing each generator.
+ */
+export interface FeatureModule {
+    id: string;
+    label: string;
+    enabled: (config: ProjectConfig) => boolean;
+    files?: (ctx: FeatureContext) => FileSpec[];
+    slots?: (ctx: FeatureContext) => Partial<Record<Slot, string[]>>;
+    dependencies?: (ctx: FeatureContext) => Partial<Record<Workspace, DependencySet>>;
+    env?: (ctx: FeatureContext) => EnvGroup[];
+    services?: (ctx: FeatureContext) => ServiceDefinition[];
+    scripts?: (ctx: FeatureContext) => Record<string, string>;
+    setup?: (ctx: FeatureContext) => SetupContribution;
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "bun:test";
+import { parse } from "yaml";
+import { DEFAULT_CONFIG, type ProjectConfig } from "./config";
+import { enabledFeatures } from "./features";
+import { generateProject } from "./generate";
+import type { VirtualFs } from "./vfs";
+
+const config: ProjectConfig = { ...DEFAULT_CONFIG, name: "demo" };
+
+const json = (project: VirtualFs, file: string) => JSON.parse(project.read(file)!);
+const services = (project: VirtualFs): string[] =>
+    Object.keys(parse(project.read("docker-compose.yml") ?? "services: {}").services ?? {});
+const envKeys = (project: VirtualFs): string[] =>
+    [...project.read(".env.example")!.matchAll(/^([A-Z][A-Z0-9_]*)=/gm)].map((match) => match[1]);
+
+describe("feature modules", () => {
+    it("enables one module per chosen option", () => {
+        const ids = enabledFeatures({ ...config, storage: "uploadthing", analytics: "none" }).map(
+            (feature) => feature.id
+        );
+
+        expect(ids).toContain("uploadthing");
+        expect(ids).not.toContain("minio");
+        expect(ids).not.toContain("posthog");
+    });
+
+    it("collects the files, dependencies, env vars and services of an enabled module", async () => {
+        const project = await generateProject({ ...config, storage: "minio" });
+
+        expect(project.has("apps/web/src/storage.ts")).toBe(true);
+        expect(json(project, "apps/web/package.json").dependencies).toHaveProperty("@aws-sdk/client-s3");
+        expect(envKeys(project)).toContain("S3_SECRET_ACCESS_KEY");
+        expect(services(project)).toEqual(["postgres", "minio"]);
+    });
+
+    it("leaves out everything a disabled module would contribute", async () => {
+        const project = await generateProject({ ...config, storage: "none" });
+
+        expect(project.has("apps/web/src/storage.ts")).toBe(false);
+        expect(json(project, "apps/web/package.json").dependencies).not.toHaveProperty("@aws-sdk/client-s3");
+        expect(envKeys(project)).not.toContain("S3_SECRET_ACCESS_KEY");
+        expect(services(project)).toEqual(["postgres"]);
+    });
+
+    it("fills every slot of the templates", async () => {
+        const configs: ProjectConfig[] = [
+            config,
+            { ...config, auth: "clerk", realtime: "websocket", styling: "shadcn", analytics: "umami" },
+            { ...config, database: "none", orm: "none", auth: "none", storage: "none", ratelimit: "none" }
+        ];
+        for (const options of configs) {
+            const project = await generateProject(options);
+            const unfilled = project.files().filter((file) => /\{\{[A-Z_]+\}\}/.test(project.read(file)!));
+            expect(unfilled).toEqual([]);
+        }
+    });
+});
+
+describe("MongoDB with Prisma", () => {
+    it("runs the container as a replica set and connects to it", async () => {
+        const project = await generateProject({ ...config, database: "mongodb", orm: "prisma" });
+        const mongodb = parse(project.read("docker-compose.yml")!).services.mongodb;
+
+        expect(mongodb.entrypoint.at(-1)).toContain("mongod --replSet rs0 --keyFile /etc/mongo-keyfile");
+        expect(mongodb.healthcheck.test.at(-1)).toContain("rs.initiate(");
+        expect(project.read(".env")).toMatch(
+            /^DATABASE_URL=mongodb:\/\/app:.+@localhost:27017\/demo\?authSource=admin&replicaSet=rs0&directConnection=true$/m
+        );
+    });
+
+    it("starts the replica set in CI, where service containers cannot set an entrypoint", async () => {
+        const project = await generateProject({ ...config, database: "mongodb", orm: "prisma" });
+        const { checks } = parse(project.read(".github/workflows/ci.yml")!).jobs;
+        const start = checks.steps.find((step: { name?: string }) => step.name === "Start MongoDB");
+
+        expect(checks).not.toHaveProperty("services");
+        expect(start.run).toContain("--entrypoint bash mongo:7");
+        expect(start.run).toContain("mongod --replSet rs0");
+        expect(start.run).toContain("docker inspect -f '{{.State.Health.Status}}' mongodb");
+    });
+
+    it("keeps a standalone server for the native driver", async () => {
+        const project = await generateProject({ ...config, database: "mongodb", orm: "none" });
+        const mongodb = parse(project.read("docker-compose.yml")!).services.mongodb;
+
+        expect(mongodb).not.toHaveProperty("entrypoint");
+        expect(project.read(".env")).not.toContain("replicaSet");
+    });
+});
+
+describe("env files", () => {
+    /** Keys of the `z.object()` assigned to `name` in env.ts */
+    const schemaKeys = (project: VirtualFs, name: string): string[] => {
+        const body = project
+            .read("apps/web/src/env.ts")!
+            .match(new RegExp(`const ${name} = z\\.object\\(\\{([^]*?)\\}\\);`));
+        return [...(body?.[1] ?? "").matchAll(/^\s+([A-Z][A-Z0-9_]*):/gm)].map((match) => match[1]);
+    };
+
+    it("writes env.ts from the same variables as .env.example", async () => {
+        const project = await generateProject(config);
+
+        expect([...schemaKeys(project, "server"), ...schemaKeys(project, "client")].sort()).toEqual(
+            envKeys(project).sort()
+        );
+    });
+
+    it("gives the NEXT_PUBLIC_ variables their own schema", async () => {
+        const project = await generateProject({ ...config, realtime: "websocket", analytics: "none" });
+        const env = project.read("apps/web/src/env.ts")!;
+
+        expect(schemaKeys(project, "client")).toEqual(["NEXT_PUBLIC_APP_URL", "NEXT_PUBLIC_WS_URL"]);
+        expect(schemaKeys(project, "server").filter((key) => key.startsWith("NEXT_PUBLIC_"))).toEqual([]);
+        // Next.js only inlines variables it sees written out in full
+        expect(env).toContain("NEXT_PUBLIC_WS_URL: process.env.NEXT_PUBLIC_WS_URL || undefined");
+    });
+
+    it("takes the schema of each variable from its feature", async () => {
+        const env = (await generateProject(config)).read("apps/web/src/env.ts")!;
+        const mssql = (await generateProject({ ...config, database: "mssql", orm: "prisma" })).read(
+            "apps/web/src/env.ts"
+        )!;
+
+        expect(env).toContain("DATABASE_URL: z.string().url(),");
+        expect(env).toContain("GITHUB_CLIENT_ID: z.string().optional(),");
+        expect(env).toContain("NEXTAUTH_SECRET: z.string().min(32),");
+        expect(mssql).toContain("DATABASE_URL: z.string().min(1),");
+    });
+
+    it("groups the variables of .env.example under the titles of their features", async () => {
+        const example = (await generateProject(config)).read(".env.example")!;
+        const titles = [...example.matchAll(/^# (.+)$/gm)].map((match) => match[1]);
+
+        expect(titles.slice(0, 3)).toEqual(["Database", "App", "NextAuth"]);
+        expect(example).toContain("# MinIO Storage\nS3_ENDPOINT=http://localhost:9000\n");
+    });
+
+    it("leaves out the variables of disabled features", async () => {
+        const project = await generateProject({ ...config, database: "none", orm: "none", auth: "none" });
+
+        expect(envKeys(project)).not.toContain("DATABASE_URL");
+        expect(schemaKeys(project, "server")).not.toContain("NEXTAUTH_SECRET");
+    });
+});
@@ -0,0 +1,439 @@
+import path from "path";
+import { Document, isSeq, Scalar, type YAMLMap, type Pair } from "yaml";
+import type { ProjectConfig } from "./config";
+import {
+    enabledFeatures,
+    type FeatureContext,
+    type FeatureModule,
+    type ServiceDefinition,
+    type SetupContribution,
+    type Slot,
+    type Workspace
+} from "./features";
+import { toJavaScript } from "./javascript";
+import { generateDeployment } from "./deploy";
+import { generateDockerfiles } from "./docker";
+import { applyLayout } from "./layout";
+import { writeManifest } from "./manifest";
+import { createSecrets, SECRET_PLACEHOLDER, type Secrets } from "./secrets";
+import { renderTemplates, TEMPLATES_DIR } from "./template";
+import { VirtualFs } from "./vfs";
+import { generateWorkflow } from "./workflow";
+
+const WORKSPACE_PACKAGES: Record<Exclude<Workspace, "root">, string> = {
+    web: "apps/web/package.json",
+    db: "packages/db/package.json",
+    analytics: "packages/analytics/package.json",
+    ws: "apps/ws/package.json"
+};
+
+export function featureContext(config: ProjectConfig, secrets: Secrets = createSecrets()): FeatureContext {
+    const pm = config.packageManager;
+    const pmx = pm === "bun" ? "bunx" : pm === "pnpm" ? "pnpx" : "npx";
+    // A hosted database's URL holds its credentials, so it is handled as a secret: .env gets it,
+    // .env.example a placeholder, and commands run later read it back from .env (see `readSecrets`)
+    const secret: Secrets = (name) => (name === "DATABASE_URL" && config.databaseUrl) || secrets(name);
+    return { config, pm, pmx, dbImport: config.monorepo ? "@ac/db" : "@/db/client", secret };
+}
+
+/**
+ * Builds the whole project in memory: the base template, the files and slot snippets of
+ * every enabled feature module, and the generated package.json, env, compose, Dockerfiles,
+ * deployment config, CI workflow, SETUP.md and afc.json manifest. Pass the `secrets` of an
+ * existing project to reproduce its files.
+ */
+export async function generateProject(config: ProjectConfig, secrets: Secrets = createSecrets()): Promise<VirtualFs> {
+    const ctx = featureContext(config, secrets);
+    const features = enabledFeatures(config);
+    const project = new VirtualFs();
+
+    await project.copyFrom(path.join(TEMPLATES_DIR, "base"), ".", "base");
+    for (const feature of features) {
+        for (const spec of feature.files?.(ctx) ?? []) {
+            if ("content" in spec) {
+                project.write(spec.to, spec.content, feature.id);
+            } else {
+                await project.copyFrom(path.join(TEMPLATES_DIR, spec.from), spec.to, spec.from);
+            }
+        }
+    }
+
+    const slots: Partial<Record<Slot, string[]>> = {};
+    for (const feature of features) {
+        for (const [slot, snippets] of Object.entries(feature.slots?.(ctx) ?? {})) {
+            (slots[slot as Slot] ??= []).push(...snippets);
+        }
+    }
+    await renderTemplates(project, slots);
+
+    const services = features.flatMap((feature) => feature.services?.(ctx) ?? []);
+    generatePackageJson(project, features, ctx, services.length > 0);
+    generateEnvSchema(project, features, ctx);
+    applyLayout(project, config);
+    await toJavaScript(project, config);
+    generateDockerCompose(project, services);
+    if (config.docker) generateDockerfiles(project, features, ctx);
+    generateDeployment(project, features, ctx);
+    // The workflow builds the Dockerfiles, so it comes after them
+    if (config.cicd) generateWorkflow(project, features, ctx);
+    generateEnvFiles(project, features, ctx);
+    generateSetupInstructions(project, features, ctx, services);
+    writeManifest(project, config);
+
+    return project;
+}
+
+function sortKeys(deps: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(deps).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function generatePackageJson(project: VirtualFs, features: FeatureModule[], ctx: FeatureContext, hasServices: boolean) {
+    const { config } = ctx;
+    const deps: Partial<
+        Record<Workspace, { dependencies: Record<string, string>; devDependencies: Record<string, string> }>
+    > = {};
+    const scripts: Record<string, string> = {};
+
+    for (const feature of features) {
+        for (const [workspace, set] of Object.entries(feature.dependencies?.(ctx) ?? {})) {
+            const target = (deps[workspace as Workspace] ??= { dependencies: {}, devDependencies: {} });
+            Object.assign(target.dependencies, set.dependencies);
+            Object.assign(target.devDependencies, set.devDependencies);
+        }
+        // The base scripts come first, docker helpers right after them
+        Object.assign(scripts, feature.scripts?.(ctx));
+        if (feature.id === "app" && hasServices) {
+            scripts["docker:up"] = "docker compose up -d";
+            scripts["docker:down"] = "docker compose down";
+            scripts["docker:logs"] = "docker compose logs -f";
+        }
+    }
+
+    const root = deps.root ?? { dependencies: {}, devDependencies: {} };
+    for (const [workspace, file] of Object.entries(WORKSPACE_PACKAGES)) {
+        const additions = deps[workspace as Workspace];
+        const source = project.read(file);
+        if (source === undefined) {
+            if (!additions) continue;
+            throw new Error(`Cannot add dependencies to ${file}: the workspace is not part of this project`);
+        }
+        const pkg = JSON.parse(source);
+        if (!config.monorepo) {
+            // A single app installs everything from the root package.json
+            Object.assign(root.dependencies, pkg.dependencies, additions?.dependencies);
+            Object.assign(root.devDependencies, pkg.devDependencies, additions?.devDependencies);
+            project.remove(file);
+            continue;
+        }
+        if (!additions) continue;
+        for (const field of ["dependencies", "devDependencies"] as const) {
+            const merged = { ...pkg[field], ...additions[field] };
+            if (Object.keys(merged).length > 0) pkg[field] = sortKeys(merged);
+        }
+        project.write(file, JSON.stringify(pkg, null, 4) + "\n");
+    }
+
+    project.writeJSON("package.json", {
+        name: config.name,
+        version: "0.1.0",
+        private: true,
+        type: "module",
+        packageManager:
+            config.packageManager === "bun"
+                ? "bun@1.3.0"
+                : config.packageManager === "pnpm"
+                  ? "pnpm@9.14.4"
+                  : "npm@10.9.2",
+        scripts,
+        dependencies: sortKeys(root.dependencies),
+        devDependencies: sortKeys(root.devDependencies),
+        ...(config.monorepo ? { workspaces: ["apps/*", "packages/*"] } : {})
+    });
+}
+
+function generateDockerCompose(project: VirtualFs, services: ServiceDefinition[]) {
+    if (services.length === 0) return;
+
+    const doc = new Document(
+        { services: Object.fromEntries(services.map(({ name, service }) => [name, service])) },
+        // YAML 1.1 rules quote values such as "Y" that Compose would otherwise read as booleans
+        { version: "1.1" }
+    );
+    const entries = (doc.get("services", true) as YAMLMap).items as Pair<Scalar, YAMLMap>[];
+    entries.forEach((entry, index) => {
+        if (index > 0) entry.key.spaceBefore = true;
+        const ports = entry.value!.get("ports", true);
+        const test = entry.value!.getIn(["healthcheck", "test"], true);
+        if (isSeq(test)) test.flow = true;
+        for (const seq of [ports, test]) {
+            if (isSeq(seq)) for (const item of seq.items as Scalar[]) item.type = Scalar.QUOTE_DOUBLE;
+        }
+    });
+
+    project.write("docker-compose.yml", doc.toString({ indent: 2, flowCollectionPadding: false }));
+}
+
+/**
+ * Writes env.ts from the same variables as .env.example, so the two cannot drift apart.
+ * `NEXT_PUBLIC_*` variables are inlined into the browser bundle and get their own schema.
+ */
+function generateEnvSchema(project: VirtualFs, features: FeatureModule[], ctx: FeatureContext) {
+    const vars = features.flatMap((feature) => feature.env?.(ctx) ?? []).flatMap((group) => group.vars);
+    const server = vars.filter(({ key }) => !key.startsWith("NEXT_PUBLIC_"));
+    const client = vars.filter(({ key }) => key.startsWith("NEXT_PUBLIC_"));
+    const object = (entries: string[]) =>
+        entries.length > 0 ? `{\n${entries.map((entry) => `    ${entry}`).join(",\n")}\n}` : "{}";
+
+    project.write(
+        "apps/web/src/env.ts",
+        `import { z } from "zod";
+
+// Empty values in .env count as unset, so optional variables can be left blank
+const values = Object.fromEntries(Object.entries(process.env).filter(([, value]) => value !== ""));
+
+/** Variables only the server can read */
+const server = z.object(${object(server.map(({ key, schema }) => `${key}: ${schema}`))});
+
+/** Variables of the browser bundle; Next.js only inlines \`process.env.NEXT_PUBLIC_*\` written out in full */
+const client = z.object(${object(client.map(({ key, schema }) => `${key}: ${schema}`))});
+
+const clientValues = ${object(client.map(({ key }) => `${key}: process.env.${key} || undefined`))};
+
+// Set while Docker images build without the runtime secrets; the server validates them once it starts
+const skip = Boolean(process.env.SKIP_ENV_VALIDATION);
+
+export const clientEnv = skip ? (clientValues as z.infer<typeof client>) : client.parse(clientValues);
+
+/** Server and client variables, for server code only */
+export const env = { ...(skip ? (values as z.infer<typeof server>) : server.parse(values)), ...clientEnv };
+`,
+        "env"
+    );
+}
+
+function generateEnvFiles(project: VirtualFs, features: FeatureModule[], ctx: FeatureContext) {
+    const env = (context: FeatureContext) =>
+        features
+            .flatMap((feature) => feature.env?.(context) ?? [])
+            .map(({ title, vars }) => [`# ${title}`, ...vars.map(({ key, value }) => `${key}=${value}`)].join("\n"))
+            .join("\n\n") + "\n";
+
+    // .env.example is committed, so it only gets placeholders
+    project.write(".env.example", env({ ...ctx, secret: () => SECRET_PLACEHOLDER }));
+
+    // Also create .env file for local development, with the secrets the compose services use
+    project.write(".env", env(ctx));
+}
+
+function dockerRunCommand(projectName: string, { name, service }: ServiceDefinition): string {
+    const args = [
+        `--name ${projectName}-${name}`,
+        ...Object.entries(service.environment ?? {}).map(([key, value]) => `-e ${key}=${value}`),
+        ...(service.ports ?? []).map((port) => `-p ${port}`),
+        // Bind mounts from the compose file become named volumes
+        ...(service.volumes ?? []).map((volume) => `-v ${projectName}_${name}_data:${volume.split(":")[1]}`),
+        // `--entrypoint` only takes the program; its arguments follow the image
+        ...(service.entrypoint ? [`--entrypoint ${service.entrypoint[0]}`] : []),
+        service.image,
+        ...(service.entrypoint ?? []).slice(1).map((arg) => (/[\s"$]/.test(arg) ? `'${arg}'` : arg)),
+        ...(service.command ? [service.command] : [])
+    ];
+    return ["docker run -d", ...args.map((arg) => `  ${arg}`)].join(" \\\n");
+}
+
+function generateSetupInstructions(
+    project: VirtualFs,
+    features: FeatureModule[],
+    ctx: FeatureContext,
+    services: ServiceDefinition[]
+) {
+    const { config, pm } = ctx;
+    const setup: Required<SetupContribution> = {
+        steps: [],
+        accessPoints: [],
+        commands: [],
+        sections: [],
+        troubleshooting: []
+    };
+    for (const feature of features) {
+        const contribution = feature.setup?.(ctx) ?? {};
+        for (const key of Object.keys(setup) as (keyof SetupContribution)[]) {
+            setup[key].push(...((contribution[key] ?? []) as never[]));
+        }
+    }
+
+    const steps: { title: string; body: string }[] = [
+        {
+            title: "Install Dependencies",
+            body: `\`\`\`bash
+${pm} install
+\`\`\``
+        }
+    ];
+
+    if (services.length > 0) {
+        steps.push({
+            title: "Start Docker Services",
+            body: `Start the local development services (${services.map((service) => service.name).join(" and ")}):
+
+\`\`\`bash
+# Start services in background
+${pm} run docker:up
+
+# Or start with logs visible
+docker compose up
+
+# Stop services
+${pm} run docker:down
+
+# View logs
+${pm} run docker:logs
+\`\`\`
+
+#### Alternative: Docker Run Commands
+
+If you prefer not to use Docker Compose, you can run services individually:
+
+${services
+    .map(
+        (service) => `**${service.label}:**
+\`\`\`bash
+${dockerRunCommand(config.name, service)}
+\`\`\`${service.note ? `\n\n${service.note}` : ""}`
+    )
+    .join("\n\n")}`
+        });
+    }
+
+    if (!config.hasHostedDb) {
+        steps.push({
+            title: "Environment Variables",
+            body: `\`.env\` has been generated with random secrets and the passwords of the local services, matching \`docker-compose.yml\`. \`.env.example\` lists the same variables with placeholders; keep \`.env\` itself out of git.
+
+Edit \`.env\` and update the values as needed.`
+        });
+    }
+
+    steps.push(...setup.steps, {
+        title: "Start Development Server",
+        body: `\`\`\`bash
+${pm} run dev
+\`\`\``
+    });
+
+    const commandGroups = [
+        {
+            title: "Development",
+            lines: [
+                `${pm} run dev          # Start dev server`,
+                `${pm} run build        # Build for production`,
+                `${pm} run lint         # Run linter`
+            ]
+        },
+        ...(services.length > 0
+            ? [
+                  {
+                      title: "Docker Services",
+                      lines: [
+                          `${pm} run docker:up    # Start services`,
+                          `${pm} run docker:down  # Stop services`,
+                          `${pm} run docker:logs  # View logs`
+                      ]
+                  }
+              ]
+            : []),
+        ...setup.commands
+    ];
+
+    const structure = config.monorepo
+        ? [
+              "This is a monorepo using Turborepo:\n",
+              "- `apps/web` - Next.js frontend application",
+              ...(project.has("apps/ws/package.json") ? ["- `apps/ws` - WebSocket server (Fastify + Bun)"] : []),
+              ...(project.has("packages/db/package.json")
+                  ? ["- `packages/db` - Shared database schema and client"]
+                  : []),
+              "- `packages/*` - Other shared packages"
+          ]
+        : [
+              "This is a single Next.js app:\n",
+              "- `src/app` - Pages and API routes",
+              ...(project.files().some((file) => file.startsWith("src/db/"))
+                  ? ["- `src/db` - Database schema and client"]
+                  : []),
+              ...(project.has("ws/server.ts") ? ["- `ws` - WebSocket server (Fastify + Bun)"] : [])
+          ];
+
+    // Drizzle keeps the schema next to the client, Prisma in prisma/schema.prisma
+    const schemaFile =
+        project
+            .files()
+            .find((file) => /^(packages\/db\/(src|prisma)|src\/db|prisma)\/schema\.(ts|js|prisma)$/.test(file)) ??
+        `${config.monorepo ? "packages/db/src" : "src/db"}/schema.${config.language === "typescript" ? "ts" : "js"}`;
+
+    const ports = [
+        ...new Set(services.flatMap(({ service }) => (service.ports ?? []).map((port) => port.split(":")[0])))
+    ];
+    const troubleshooting = [
+        ...(services.length > 0
+            ? [
+                  {
+                      title: "Docker services not starting?",
+                      body: `\`\`\`bash
+# Check if ports are already in use
+${ports.map((port) => `lsof -i :${port}`).join("\n")}
+# Stop and remove containers
+docker compose down -v
+# Start fresh
+docker compose up
+\`\`\``
+                  }
+              ]
+            : []),
+        ...setup.troubleshooting,
+        {
+            title: "Not sure what is wrong?",
+            body: `The AFC Stack doctor checks the env vars against \`env.ts\`, the ports, the Docker services, the database and storage connections and pending migrations, and prints how to fix each problem. From an afc-stack checkout:
+
+\`\`\`bash
+bun run doctor --cwd path/to/${config.name}
+\`\`\``
+        },
+        { title: "Need help?", body: `Run \`${pm} run setup\` to see this guide again.` }
+    ];
+
+    const instructions = `# ${config.name} - Setup Instructions
+
+## Quick Start
+
+${steps.map((step, index) => `### ${index + 1}. ${step.title}\n\n${step.body}\n\n`).join("")}## Access Points
+
+${[{ label: "Web App", url: "http://localhost:3000" }, ...setup.accessPoints].map((point) => `- **${point.label}**: ${point.url}`).join("\n")}
+
+## Useful Commands
+
+\`\`\`bash
+# View this setup guide anytime
+${pm} run setup
+
+${commandGroups.map((group) => `# ${group.title}\n${group.lines.join("\n")}`).join("\n\n")}
+\`\`\`
+
+## Project Structure
+
+${structure.join("\n")}
+
+## Next Steps
+
+1. Start building your app in \`${config.monorepo ? "apps/web/src" : "src"}\`
+2. Define database schema in \`${schemaFile}\`
+3. Add API routes in \`${config.monorepo ? "apps/web/src/app/api" : "src/app/api"}\`
+4. Customize configuration as needed
+
+${setup.sections.map((section) => `## ${section.title}\n\n${section.body}\n\n`).join("")}## Troubleshooting
+
+${troubleshooting.map((entry) => `### ${entry.title}\n\n${entry.body}`).join("\n\n")}
+`;
+
+    project.write("SETUP.md", instructions);
+}
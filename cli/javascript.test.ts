@@ -0,0 +1,70 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { DEFAULT_CONFIG } from "./config";
+import { generateProject } from "./generate";
+import { stripTypes } from "./javascript";
+import type { VirtualFs } from "./vfs";
+
+describe("JavaScript projects", () => {
+    let project: VirtualFs;
+
+    beforeAll(async () => {
+        project = await generateProject({ ...DEFAULT_CONFIG, name: "demo", language: "javascript" });
+    });
+
+    it("emits .js and .jsx sources only", () => {
+        expect(project.files().filter((file) => /\.tsx?$/.test(file))).toEqual([]);
+        expect(project.has("apps/web/src/app/page.jsx")).toBe(true);
+        expect(project.has("packages/db/src/schema.js")).toBe(true);
+    });
+
+    it("replaces the tsconfig files with jsconfig.json", () => {
+        expect(project.files().filter((file) => file.includes("tsconfig"))).toEqual([]);
+
+        const jsconfig = JSON.parse(project.read("apps/web/jsconfig.json")!);
+        expect(jsconfig.compilerOptions).toMatchObject({ checkJs: false, paths: { "@/*": ["./src/*"] } });
+        expect(jsconfig.compilerOptions).not.toHaveProperty("noEmit");
+        expect(jsconfig.include).toEqual(["**/*.js", "**/*.jsx"]);
+    });
+
+    it("drops TypeScript tooling from the package.json files", () => {
+        for (const file of project.files().filter((file) => file.endsWith("package.json"))) {
+            const pkg = JSON.parse(project.read(file)!);
+            expect(
+                Object.keys(pkg.devDependencies ?? {}).filter((name) => /^(typescript|@types\/)/.test(name))
+            ).toEqual([]);
+            expect(Object.values<string>(pkg.scripts ?? {}).filter((script) => /^tsc\b/.test(script))).toEqual([]);
+        }
+    });
+});
+
+describe("stripTypes", () => {
+    it("keeps parameter and return types as JSDoc", () => {
+        const code = stripTypes(
+            "math.ts",
+            "export function add(a: number, b?: number): number {\n    return a + (b ?? 0);\n}\n"
+        );
+
+        expect(code).toContain("@param {number} a");
+        expect(code).toContain("@param {number} [b]");
+        expect(code).toContain("@returns {number}");
+        expect(code).not.toContain(": number");
+    });
+
+    it("documents interfaces and the types of type-only imports", () => {
+        const code = stripTypes(
+            "todo.ts",
+            `import type { Todo } from "./schema";
+
+interface Props {
+    todo: Todo;
+}
+
+export const title = (props: Props): string => props.todo.title;
+`
+        );
+
+        expect(code).not.toContain("import type");
+        expect(code).toContain('@typedef {{ todo: import("./schema").Todo; }} Props');
+        expect(code).toContain("@param {Props} props");
+    });
+});
@@ -0,0 +1,195 @@
+import * as prettier from "prettier";
+import { blankSourceFile } from "ts-blank-space";
+import ts from "typescript";
+import type { ProjectConfig } from "./config";
+import type { VirtualFs } from "./vfs";
+
+/** Compiler options that only mean something to `tsc` */
+const TS_ONLY_OPTIONS = ["allowJs", "noEmit", "isolatedModules", "incremental", "outDir", "rootDir", "baseUrl"];
+
+interface Edit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * Converts a generated TypeScript project to JavaScript: `.ts`/`.tsx` sources become
+ * `.js`/`.jsx` with their types stripped (annotations are kept as JSDoc), tsconfig files
+ * become jsconfig.json and TypeScript tooling is dropped from the package.json files.
+ */
+export async function toJavaScript(project: VirtualFs, config: ProjectConfig) {
+    if (config.language === "typescript") return;
+
+    const rc = project.read(".prettierrc");
+    const options: prettier.Options = rc ? JSON.parse(rc) : {};
+
+    for (const file of project.files()) {
+        if (file.endsWith(".d.ts")) {
+            project.remove(file);
+            continue;
+        }
+        const match = file.match(/^(.*)\.(ts|tsx)$/);
+        if (!match) continue;
+        const target = `${match[1]}.${match[2] === "tsx" ? "jsx" : "js"}`;
+        const code = stripTypes(file, project.read(file)!);
+        project.remove(file);
+        project.write(target, await prettier.format(code, { ...options, filepath: target }));
+    }
+
+    for (const file of project.files()) {
+        if (file.endsWith("tsconfig.json")) {
+            const jsconfig = toJsConfig(project, file);
+            project.remove(file);
+            project.write(
+                file.replace(/tsconfig\.json$/, "jsconfig.json"),
+                await prettier.format(JSON.stringify(jsconfig), { ...options, parser: "json" })
+            );
+        }
+    }
+    project.remove("tsconfig.base.json");
+
+    for (const file of project.files()) {
+        if (file.endsWith("package.json")) project.write(file, toJsPackage(project.read(file)!));
+    }
+}
+
+/**
+ * Strips the types of a TypeScript module, first documenting them as JSDoc so editors
+ * (and `checkJs`) still know what the values are.
+ */
+export function stripTypes(file: string, source: string): string {
+    const kind = file.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+    const documented = applyEdits(source, jsDocEdits(parse(file, source, kind), kind === ts.ScriptKind.TSX));
+    return blankSourceFile(parse(file, documented, kind), (node) => {
+        throw new Error(`${file}: cannot convert \`${node.getText()}\` to JavaScript`);
+    });
+}
+
+function parse(file: string, source: string, kind: ts.ScriptKind): ts.SourceFile {
+    return ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true, kind);
+}
+
+function applyEdits(source: string, edits: Edit[]): string {
+    return [...edits]
+        .sort((a, b) => b.start - a.start)
+        .reduce((code, edit) => code.slice(0, edit.start) + edit.text + code.slice(edit.end), source);
+}
+
+function jsDocEdits(sourceFile: ts.SourceFile, jsx: boolean): Edit[] {
+    const edits: Edit[] = [];
+    // Type-only imports disappear, so JSDoc refers to those types through `import("module")`
+    const importedTypes = new Map<string, string>();
+
+    const typeText = (node: ts.Node) =>
+        node
+            .getText()
+            .replace(/\s+/g, " ")
+            .replace(/(?<![.\w$])[A-Za-z_$][\w$]*/g, (name) => importedTypes.get(name) ?? name);
+
+    // Documents a statement, merging the tags into its existing JSDoc comment if it has one
+    const document = (node: ts.Node, tags: string[]) => {
+        if (tags.length === 0) return;
+        const existing = (node as { jsDoc?: ts.JSDoc[] }).jsDoc?.at(-1);
+        if (existing?.tags?.length) return;
+        const description = existing ? ts.getTextOfJSDocComment(existing.comment) : undefined;
+        const lines = [...(description ? description.split("\n") : []), ...tags];
+        const text =
+            lines.length === 1 ? `/** ${lines[0]} */` : ["/**", ...lines.map((line) => ` * ${line}`), " */"].join("\n");
+        edits.push(
+            existing
+                ? { start: existing.getStart(), end: existing.getEnd(), text }
+                : { start: node.getStart(), end: node.getStart(), text: `${text}\n` }
+        );
+    };
+
+    const functionTags = (fn: ts.SignatureDeclaration): string[] => [
+        ...fn.parameters.flatMap((param) => {
+            if (!param.type) return [];
+            const name = ts.isIdentifier(param.name) ? param.name.text : jsx ? "props" : "options";
+            const type =
+                param.dotDotDotToken && ts.isArrayTypeNode(param.type)
+                    ? `...${typeText(param.type.elementType)}`
+                    : typeText(param.type);
+            return [`@param {${type}} ${param.questionToken ? `[${name}]` : name}`];
+        }),
+        ...(fn.type ? [`@returns {${typeText(fn.type)}}`] : [])
+    ];
+
+    for (const statement of sourceFile.statements) {
+        if (ts.isImportDeclaration(statement)) {
+            const clause = statement.importClause;
+            const module = (statement.moduleSpecifier as ts.StringLiteral).text;
+            if (!clause) continue;
+            if (clause.isTypeOnly) {
+                // Removed with its line break instead of leaving a blank line behind
+                edits.push({ start: statement.getStart(), end: statement.getEnd() + 1, text: "" });
+                if (clause.name) importedTypes.set(clause.name.text, `import("${module}").default`);
+            }
+            const bindings = clause.namedBindings;
+            if (bindings && ts.isNamedImports(bindings)) {
+                for (const element of bindings.elements) {
+                    if (!clause.isTypeOnly && !element.isTypeOnly) continue;
+                    const imported = (element.propertyName ?? element.name).text;
+                    importedTypes.set(element.name.text, `import("${module}").${imported}`);
+                }
+            }
+        } else if (ts.isTypeAliasDeclaration(statement)) {
+            document(statement, [`@typedef {${typeText(statement.type)}} ${statement.name.text}`]);
+        } else if (ts.isInterfaceDeclaration(statement)) {
+            const members = statement.members.map((member) => typeText(member)).join(" ");
+            const parts = [
+                ...(statement.heritageClauses ?? []).flatMap((clause) => clause.types.map(typeText)),
+                `{ ${members} }`
+            ];
+            document(statement, [`@typedef {${parts.join(" & ")}} ${statement.name.text}`]);
+        } else if (ts.isFunctionDeclaration(statement)) {
+            document(statement, functionTags(statement));
+        } else if (ts.isVariableStatement(statement) && statement.declarationList.declarations.length === 1) {
+            const [declaration] = statement.declarationList.declarations;
+            const init = declaration.initializer;
+            if (declaration.type) {
+                document(statement, [`@type {${typeText(declaration.type)}}`]);
+            } else if (init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init))) {
+                document(statement, functionTags(init));
+            }
+        }
+    }
+
+    return edits;
+}
+
+function toJsConfig(project: VirtualFs, file: string) {
+    const tsconfig = JSON.parse(project.read(file)!);
+    // The shared base config is inlined because tsconfig.base.json is not emitted
+    const base = tsconfig.extends ? JSON.parse(project.read("tsconfig.base.json") ?? "{}") : {};
+    const compilerOptions = { ...base.compilerOptions, ...tsconfig.compilerOptions, checkJs: false };
+    for (const option of TS_ONLY_OPTIONS) delete compilerOptions[option];
+    // Base paths are relative to the repository root and only make sense there
+    if (!tsconfig.compilerOptions?.paths) delete compilerOptions.paths;
+
+    return {
+        compilerOptions,
+        include: (tsconfig.include as string[] | undefined)
+            ?.filter((pattern) => !pattern.endsWith(".d.ts") && !pattern.startsWith(".next/"))
+            .map((pattern) => pattern.replace(/\.ts$/, ".js").replace(/\.tsx$/, ".jsx")),
+        exclude: tsconfig.exclude
+    };
+}
+
+function toJsPackage(source: string): string {
+    const pkg = JSON.parse(source);
+    const rename = (value: string) => value.replace(/\.ts\b/g, ".js").replace(/\.tsx\b/g, ".jsx");
+
+    if (typeof pkg.main === "string") pkg.main = rename(pkg.main);
+    for (const [name, script] of Object.entries<string>(pkg.scripts ?? {})) {
+        if (/^tsc\b/.test(script)) delete pkg.scripts[name];
+        else pkg.scripts[name] = rename(script);
+    }
+    for (const name of Object.keys(pkg.devDependencies ?? {})) {
+        if (name === "typescript" || name.startsWith("@types/")) delete pkg.devDependencies[name];
+    }
+
+    const indent = source.match(/^\{\n( +)/)?.[1].length ?? 2;
+    return JSON.stringify(pkg, null, indent) + "\n";
+}
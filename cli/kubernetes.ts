@@ -0,0 +1,251 @@
+import { Document } from "yaml";
+import { hasMigrateTarget } from "./docker";
+import type { FeatureContext, FeatureModule } from "./features";
+import { SECRET_PLACEHOLDER } from "./secrets";
+import type { VirtualFs } from "./vfs";
+
+/** Directory of the manifests, applied with `kubectl apply -k k8s` */
+export const KUBERNETES_DIR = "k8s";
+
+/** Variables that go into the Secret rather than the ConfigMap, by name */
+const SECRET_KEYS = /PASSWORD|SECRET|TOKEN|KEY|DATABASE_URL/;
+
+/** Runs the containers as the `bun`/`node` user the images create, which has uid 1000 in both */
+const SECURITY_CONTEXT = { runAsNonRoot: true, runAsUser: 1000 };
+
+type Manifest = Record<string, unknown>;
+
+function yaml(...manifests: Manifest[]): string {
+    return manifests
+        .map((manifest) =>
+            new Document(manifest, { aliasDuplicateObjects: false }).toString({ indent: 2, lineWidth: 0, nullStr: "" })
+        )
+        .join("---\n");
+}
+
+/** The host of the Ingress, a placeholder to replace with the project's domain */
+function ingressHost({ config }: FeatureContext): string {
+    return `${config.name}.example.com`;
+}
+
+/**
+ * The env vars of the web app for the cluster, split into the ConfigMap and the Secret.
+ * `NEXT_PUBLIC_*` variables are left out: Next.js inlines them when the image builds.
+ */
+function clusterEnv(features: FeatureModule[], ctx: FeatureContext) {
+    const { config } = ctx;
+    const host = ingressHost(ctx);
+    const vars = features
+        .flatMap((feature) => feature.env?.({ ...ctx, secret: () => SECRET_PLACEHOLDER }) ?? [])
+        .flatMap((group) => group.vars)
+        .filter(({ key }) => !key.startsWith("NEXT_PUBLIC_"));
+
+    const data: Record<string, string> = {};
+    const secrets: Record<string, string> = {};
+    for (const { key, value } of vars) {
+        if (SECRET_KEYS.test(key)) {
+            // The generated secrets stay out of git; the Secret only names them
+            secrets[key] = value === "" ? "" : SECRET_PLACEHOLDER;
+            continue;
+        }
+        data[key] = value
+            .replace("http://localhost:3000", `https://${host}`)
+            .replace("http://localhost:4001", `http://${config.name}-ws:4001`);
+        // Other local services, e.g. MinIO, have no counterpart in the cluster
+        if (data[key].includes("localhost")) data[key] = SECRET_PLACEHOLDER;
+    }
+    return { data, secrets };
+}
+
+function labels(name: string) {
+    return { "app.kubernetes.io/name": name };
+}
+
+/** A Deployment with its ClusterIP Service, probed on `/health` */
+function workload(
+    name: string,
+    container: string,
+    port: number,
+    options: { replicas: number; envFrom: Manifest[]; resources: Manifest }
+): Manifest[] {
+    const probe = { httpGet: { path: "/health", port: "http" } };
+    return [
+        {
+            apiVersion: "apps/v1",
+            kind: "Deployment",
+            metadata: { name, labels: labels(name) },
+            spec: {
+                replicas: options.replicas,
+                selector: { matchLabels: labels(name) },
+                template: {
+                    metadata: { labels: labels(name) },
+                    spec: {
+                        securityContext: SECURITY_CONTEXT,
+                        containers: [
+                            {
+                                name: container,
+                                image: name,
+                                ports: [{ name: "http", containerPort: port }],
+                                ...(options.envFrom.length > 0 ? { envFrom: options.envFrom } : {}),
+                                readinessProbe: { ...probe, periodSeconds: 10 },
+                                livenessProbe: { ...probe, initialDelaySeconds: 15, periodSeconds: 30 },
+                                resources: options.resources
+                            }
+                        ]
+                    }
+                }
+            }
+        },
+        {
+            apiVersion: "v1",
+            kind: "Service",
+            metadata: { name, labels: labels(name) },
+            spec: {
+                selector: labels(name),
+                ports: [{ name: "http", port, targetPort: "http" }]
+            }
+        }
+    ];
+}
+
+/**
+ * Writes a kustomize base to `k8s/` that runs the images of the Dockerfiles: Deployments and
+ * Services of the web app and the WebSocket service, an Ingress that routes `/ws` to the
+ * latter, the env vars as a ConfigMap and a Secret, and a Job that applies the migrations.
+ * Runs after the Dockerfiles are generated.
+ */
+export function generateKubernetesManifests(project: VirtualFs, features: FeatureModule[], ctx: FeatureContext) {
+    const { config } = ctx;
+    const name = config.name;
+    const websocket = config.realtime === "websocket";
+    const migrate = hasMigrateTarget(config);
+    const env = clusterEnv(features, ctx);
+    const envFrom = [{ configMapRef: { name: `${name}-config` } }, { secretRef: { name: `${name}-secrets` } }];
+    const write = (file: string, content: string) => project.write(`${KUBERNETES_DIR}/${file}`, content, "kubernetes");
+
+    write("namespace.yaml", yaml({ apiVersion: "v1", kind: "Namespace", metadata: { name } }));
+    write(
+        "configmap.yaml",
+        yaml({ apiVersion: "v1", kind: "ConfigMap", metadata: { name: `${name}-config` }, data: env.data })
+    );
+    write(
+        "secret.yaml",
+        `# Placeholders: replace them before applying and keep the real values out of git, e.g. with SOPS or a SealedSecret
+${yaml({ apiVersion: "v1", kind: "Secret", metadata: { name: `${name}-secrets` }, type: "Opaque", stringData: env.secrets })}`
+    );
+    write(
+        "web.yaml",
+        yaml(
+            ...workload(`${name}-web`, "web", 3000, {
+                replicas: 2,
+                envFrom,
+                resources: { requests: { cpu: "100m", memory: "256Mi" }, limits: { memory: "512Mi" } }
+            })
+        )
+    );
+    if (websocket) {
+        write(
+            "ws.yaml",
+            `# One replica: the service keeps its connected clients in memory
+${yaml(
+    ...workload(`${name}-ws`, "ws", 4001, {
+        replicas: 1,
+        envFrom: [],
+        resources: { requests: { cpu: "50m", memory: "128Mi" }, limits: { memory: "256Mi" } }
+    })
+)}`
+        );
+    }
+    if (migrate) {
+        write(
+            "migrate-job.yaml",
+            `# Re-run for each release: kubectl delete job ${name}-migrate --ignore-not-found, then apply again
+${yaml({
+    apiVersion: "batch/v1",
+    kind: "Job",
+    metadata: { name: `${name}-migrate`, labels: labels(`${name}-migrate`) },
+    spec: {
+        backoffLimit: 3,
+        template: {
+            metadata: { labels: labels(`${name}-migrate`) },
+            spec: {
+                restartPolicy: "Never",
+                containers: [
+                    {
+                        name: "migrate",
+                        image: `${name}-migrate`,
+                        envFrom: [{ secretRef: { name: `${name}-secrets` } }]
+                    }
+                ]
+            }
+        }
+    }
+})}`
+        );
+    }
+
+    const backend = (service: string) => ({ service: { name: service, port: { name: "http" } } });
+    write(
+        "ingress.yaml",
+        yaml({
+            apiVersion: "networking.k8s.io/v1",
+            kind: "Ingress",
+            metadata: {
+                name,
+                ...(websocket
+                    ? {
+                          // ingress-nginx upgrades the connection itself; the timeouts keep idle sockets open
+                          annotations: {
+                              "nginx.ingress.kubernetes.io/proxy-http-version": "1.1",
+                              "nginx.ingress.kubernetes.io/proxy-read-timeout": "3600",
+                              "nginx.ingress.kubernetes.io/proxy-send-timeout": "3600"
+                          }
+                      }
+                    : {})
+            },
+            spec: {
+                ingressClassName: "nginx",
+                tls: [{ hosts: [ingressHost(ctx)], secretName: `${name}-tls` }],
+                rules: [
+                    {
+                        host: ingressHost(ctx),
+                        http: {
+                            paths: [
+                                ...(websocket
+                                    ? [{ path: "/ws", pathType: "Prefix", backend: backend(`${name}-ws`) }]
+                                    : []),
+                                { path: "/", pathType: "Prefix", backend: backend(`${name}-web`) }
+                            ]
+                        }
+                    }
+                ]
+            }
+        })
+    );
+
+    const images = ["web", ...(websocket ? ["ws"] : []), ...(migrate ? ["migrate"] : [])];
+    write(
+        "kustomization.yaml",
+        `# Apply with kubectl apply -k ${KUBERNETES_DIR}; point the images at your registry with kustomize edit set image
+${yaml({
+    apiVersion: "kustomize.config.k8s.io/v1beta1",
+    kind: "Kustomization",
+    namespace: name,
+    labels: [{ pairs: { "app.kubernetes.io/part-of": name } }],
+    resources: [
+        "namespace.yaml",
+        "configmap.yaml",
+        "secret.yaml",
+        ...(migrate ? ["migrate-job.yaml"] : []),
+        "web.yaml",
+        ...(websocket ? ["ws.yaml"] : []),
+        "ingress.yaml"
+    ],
+    images: images.map((image) => ({
+        name: `${name}-${image}`,
+        newName: `ghcr.io/your-org/${name}-${image}`,
+        newTag: "latest"
+    }))
+})}`
+    );
+}
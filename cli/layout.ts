@@ -0,0 +1,48 @@
+import type { ProjectConfig } from "./config";
+import type { VirtualFs } from "./vfs";
+
+/** Path prefixes of the monorepo and where the single-app layout puts them */
+const SINGLE_APP_MOVES: [from: string, to: string][] = [
+    ["apps/web/", ""],
+    ["packages/db/src/", "src/db/"],
+    ["packages/db/prisma/", "prisma/"],
+    ["packages/analytics/src/", "src/analytics/"],
+    ["apps/ws/src/", "ws/"]
+];
+
+/** Workspace plumbing a single app has no use for */
+const SINGLE_APP_DROPS = ["turbo.json", "tsconfig.base.json", "apps/ws/tsconfig.json"];
+
+/**
+ * Rearranges a generated monorepo into a single Next.js app. Package manifests are folded
+ * into the root package.json beforehand (see `generatePackageJson`); this moves the files
+ * and gives the app a standalone tsconfig.json.
+ */
+export function applyLayout(project: VirtualFs, config: ProjectConfig) {
+    if (config.monorepo) return;
+
+    for (const file of SINGLE_APP_DROPS) project.remove(file);
+
+    for (const file of project.files()) {
+        const target = layoutPath(file, config);
+        if (target !== file) project.rename(file, target);
+    }
+
+    // Edited as text to keep the template's formatting
+    const tsconfig = project.read("tsconfig.json");
+    if (tsconfig === undefined) return;
+    project.write(
+        "tsconfig.json",
+        tsconfig
+            .replace(/^\s*"extends": .*\n/m, "")
+            .replace(/,\n\s*"@ac\/\w+": \[.*\]/g, "")
+            .replace(/"compilerOptions": \{\n(\s*)/, '"compilerOptions": {\n$1"target": "ES2022",\n$1')
+    );
+}
+
+/** Where a file of the monorepo layout ends up in the project's layout */
+export function layoutPath(file: string, config: ProjectConfig): string {
+    if (config.monorepo) return file;
+    const move = SINGLE_APP_MOVES.find(([from]) => file.startsWith(from));
+    return move ? move[1] + file.slice(move[0].length) : file;
+}
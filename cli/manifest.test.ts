@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { DEFAULT_CONFIG } from "./config";
+import { MANIFEST_FILE, readManifest } from "./manifest";
+
+const roots: string[] = [];
+
+afterEach(async () => {
+    await Promise.all(roots.splice(0).map((root) => fs.remove(root)));
+});
+
+/** A project whose manifest holds `content` */
+async function project(content: string): Promise<string> {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "afc-manifest-"));
+    roots.push(root);
+    await fs.outputFile(path.join(root, MANIFEST_FILE), content);
+    return root;
+}
+
+describe("readManifest", () => {
+    it("reads the version, config and files of a manifest", async () => {
+        const config = { ...DEFAULT_CONFIG, name: "demo" };
+        const root = await project(JSON.stringify({ version: "1.0.0", config, files: {} }));
+
+        expect(await readManifest(root)).toEqual({ version: "1.0.0", config, files: {}, bases: undefined });
+    });
+
+    it("rejects JSON that is not an object", async () => {
+        for (const content of ["null", "[]", '"afc"', "42"]) {
+            await expect(readManifest(await project(content))).rejects.toThrow(
+                `${MANIFEST_FILE} is missing its "version" or "files"`
+            );
+        }
+    });
+
+    it("rejects a manifest that is not JSON", async () => {
+        await expect(readManifest(await project("{ version"))).rejects.toThrow(`Could not parse ${MANIFEST_FILE}`);
+    });
+});
@@ -0,0 +1,102 @@
+import { createHash } from "node:crypto";
+import fs from "fs-extra";
+import path from "path";
+import { fileURLToPath } from "url";
+import { parseConfig } from "./args";
+import { DEFAULT_CONFIG, type ProjectConfig } from "./config";
+import type { VirtualFs } from "./vfs";
+
+export const MANIFEST_FILE = "afc.json";
+
+/** Options added after a project could have been generated; its manifest predates them and they stay off */
+const LATER_OPTIONS: Partial<ProjectConfig> = { proxy: "none" };
+
+/** Version of the CLI, read from its package.json (one level up from `cli/` and from `dist/`) */
+export const CLI_VERSION: string = fs.readJSONSync(
+    path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "package.json")
+).version;
+
+/**
+ * What a project was generated from, kept in its afc.json: commands run later read the
+ * stack from here instead of probing the project, and tell the files the user has edited
+ * by their hashes.
+ */
+export interface Manifest {
+    /** CLI version that generated the project or last changed it */
+    version: string;
+    /** Without `databaseUrl`: a hosted database's URL holds its credentials and is read back from .env */
+    config: ProjectConfig;
+    /** SHA-256 of every generated file as it was last written by the CLI */
+    files: Record<string, string>;
+    /**
+     * Generated content of the files the CLI wrote with the user's edits merged in, which no
+     * commit has as generated; the next change merges against it
+     */
+    bases?: Record<string, string>;
+}
+
+export function hashContent(content: string): string {
+    return createHash("sha256").update(content).digest("hex");
+}
+
+/** The config as afc.json records it; projects commit the file, so the hosted database URL stays out */
+function recordedConfig({ databaseUrl: _databaseUrl, ...config }: ProjectConfig): ProjectConfig {
+    return config;
+}
+
+/** Adds the manifest of a freshly generated project; run last so every file is hashed */
+export function writeManifest(project: VirtualFs, config: ProjectConfig) {
+    const files = Object.fromEntries(
+        project
+            .files()
+            .filter((file) => file !== MANIFEST_FILE)
+            .map((file) => [file, hashContent(project.read(file)!)])
+    );
+    project.writeJSON(MANIFEST_FILE, {
+        version: CLI_VERSION,
+        config: recordedConfig(config),
+        files
+    } satisfies Manifest);
+}
+
+export async function readManifest(root: string): Promise<Manifest | undefined> {
+    const file = path.join(root, MANIFEST_FILE);
+    if (!fs.existsSync(file)) return undefined;
+
+    let parsed: unknown;
+    try {
+        parsed = await fs.readJSON(file);
+    } catch (error) {
+        throw new Error(`Could not parse ${MANIFEST_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    // Valid JSON such as `null` or `[]` is no manifest either
+    const raw = (
+        typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : {}
+    ) as Partial<Manifest>;
+    if (typeof raw.version !== "string" || !raw.files || typeof raw.files !== "object") {
+        throw new Error(`${MANIFEST_FILE} is missing its "version" or "files"`);
+    }
+
+    // The defaults go after the recorded options so the file keeps its key order when it is written again
+    const recorded = parseConfig(raw.config, MANIFEST_FILE);
+    const config = {
+        ...recorded,
+        ...Object.fromEntries(Object.entries(LATER_OPTIONS).filter(([key]) => !(key in recorded)))
+    };
+    const missing = ["name", ...Object.keys(DEFAULT_CONFIG)].filter(
+        (key) => key !== "hasHostedDb" && config[key as keyof ProjectConfig] === undefined
+    );
+    if (missing.length > 0) {
+        throw new Error(`${MANIFEST_FILE}: config is missing ${missing.map((key) => `"${key}"`).join(", ")}`);
+    }
+
+    return { version: raw.version, config: config as ProjectConfig, files: raw.files, bases: raw.bases };
+}
+
+export async function saveManifest(root: string, manifest: Manifest) {
+    await fs.writeJSON(
+        path.join(root, MANIFEST_FILE),
+        { ...manifest, config: recordedConfig(manifest.config) },
+        { spaces: 2 }
+    );
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "bun:test";
+import { mergeThreeWay } from "./merge";
+
+const labels = { current: "current", incoming: "generated" };
+const lines = (...values: string[]) => values.join("\n") + "\n";
+
+describe("mergeThreeWay", () => {
+    const base = lines("import a from 'a';", "", "const port = 3000;", "", "export default a;");
+
+    it("combines edits to different lines", () => {
+        const current = lines(
+            "import a from 'a';",
+            "import b from 'b';",
+            "",
+            "const port = 3000;",
+            "",
+            "export default a;"
+        );
+        const incoming = lines("import a from 'a';", "", "const port = 3001;", "", "export default a;");
+
+        expect(mergeThreeWay(base, current, incoming, labels)).toEqual({
+            content: lines(
+                "import a from 'a';",
+                "import b from 'b';",
+                "",
+                "const port = 3001;",
+                "",
+                "export default a;"
+            ),
+            conflicts: 0
+        });
+    });
+
+    it("takes an edit both sides made the same way once", () => {
+        const edited = lines("import a from 'a';", "", "const port = 8080;", "", "export default a;");
+
+        expect(mergeThreeWay(base, edited, edited, labels)).toEqual({ content: edited, conflicts: 0 });
+    });
+
+    it("marks lines both sides changed differently", () => {
+        const current = lines("import a from 'a';", "", "const port = 4000;", "", "export default a;");
+        const incoming = lines("import a from 'a';", "", "const port = 3001;", "", "export default a;");
+
+        expect(mergeThreeWay(base, current, incoming, labels)).toEqual({
+            content: lines(
+                "import a from 'a';",
+                "",
+                "<<<<<<< current",
+                "const port = 4000;",
+                "=======",
+                "const port = 3001;",
+                ">>>>>>> generated",
+                "",
+                "export default a;"
+            ),
+            conflicts: 1
+        });
+    });
+
+    it("counts each conflicting region", () => {
+        const current = lines("import a from 'x';", "", "const port = 4000;", "", "export default a;");
+        const incoming = lines("import a from 'y';", "", "const port = 3001;", "", "export default a;");
+
+        expect(mergeThreeWay(base, current, incoming, labels).conflicts).toBe(2);
+    });
+});
@@ -0,0 +1,80 @@
+import { diffArrays } from "diff";
+
+export interface MergeResult {
+    content: string;
+    /** Number of regions both sides changed differently, marked with `<<<<<<<`/`>>>>>>>` */
+    conflicts: number;
+}
+
+/** For every line of `base` the other side kept, the index it ended up at */
+function keptLines(base: string[], other: string[]): Map<number, number> {
+    const kept = new Map<number, number>();
+    let b = 0;
+    let o = 0;
+    for (const part of diffArrays(base, other)) {
+        const count = part.value.length;
+        if (part.added) {
+            o += count;
+        } else if (part.removed) {
+            b += count;
+        } else {
+            for (let i = 0; i < count; i++) kept.set(b + i, o + i);
+            b += count;
+            o += count;
+        }
+    }
+    return kept;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * Line-based three-way merge (diff3): changes `current` and `incoming` made to `base`
+ * are combined, and regions both changed differently get git-style conflict markers.
+ */
+export function mergeThreeWay(
+    base: string,
+    current: string,
+    incoming: string,
+    labels: { current: string; incoming: string }
+): MergeResult {
+    const baseLines = base.split("\n");
+    const currentLines = current.split("\n");
+    const incomingLines = incoming.split("\n");
+    const keptByCurrent = keptLines(baseLines, currentLines);
+    const keptByIncoming = keptLines(baseLines, incomingLines);
+
+    const lines: string[] = [];
+    let conflicts = 0;
+    let b = 0;
+    let c = 0;
+    let i = 0;
+    while (b <= baseLines.length) {
+        // The next base line both sides kept closes the region changed since the last one
+        let next = b;
+        while (next < baseLines.length && !(keptByCurrent.has(next) && keptByIncoming.has(next))) next++;
+        const end = next < baseLines.length;
+        const c2 = end ? keptByCurrent.get(next)! : currentLines.length;
+        const i2 = end ? keptByIncoming.get(next)! : incomingLines.length;
+
+        const original = baseLines.slice(b, next);
+        const ours = currentLines.slice(c, c2);
+        const theirs = incomingLines.slice(i, i2);
+        if (sameLines(ours, original)) {
+            lines.push(...theirs);
+        } else if (sameLines(theirs, original) || sameLines(ours, theirs)) {
+            lines.push(...ours);
+        } else {
+            conflicts++;
+            lines.push(`<<<<<<< ${labels.current}`, ...ours, "=======", ...theirs, `>>>>>>> ${labels.incoming}`);
+        }
+
+        if (!end) break;
+        lines.push(baseLines[next]);
+        b = next + 1;
+        c = c2 + 1;
+        i = i2 + 1;
+    }
+
+    return { content: lines.join("\n"), conflicts };
+}
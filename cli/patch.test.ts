@@ -0,0 +1,97 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { DEFAULT_CONFIG, type ProjectConfig } from "./config";
+import { websocketFeature } from "./features/realtime";
+import { featureContext, generateProject } from "./generate";
+import { patchTodosPage, patchTodosRoute, snippetFor } from "./patch";
+import type { VirtualFs } from "./vfs";
+
+const ROUTE = "apps/web/src/app/api/todos/route.ts";
+const PAGE = "apps/web/src/app/page.tsx";
+
+const config: ProjectConfig = { ...DEFAULT_CONFIG, name: "demo", analytics: "none" };
+const slots = websocketFeature.slots!(featureContext(config));
+const routeSnippet = slots.TODOS_CREATED![0];
+const pageSnippet = slots.PAGE_EFFECT![0];
+
+let without: VirtualFs;
+let withWebSocket: VirtualFs;
+
+beforeAll(async () => {
+    without = await generateProject(config);
+    withWebSocket = await generateProject({ ...config, realtime: "websocket" });
+});
+
+describe("patchTodosRoute", () => {
+    it("adds the broadcast to a route as generated", () => {
+        expect(patchTodosRoute(ROUTE, without.read(ROUTE)!, routeSnippet)).toBe(withWebSocket.read(ROUTE)!);
+    });
+
+    it("keeps the user's edits to the rest of the route", () => {
+        const edited = without
+            .read(ROUTE)!
+            .replace("export async function POST", "// Creates a todo\nexport async function POST");
+
+        const patched = patchTodosRoute(ROUTE, edited, routeSnippet);
+        expect(patched).toContain("// Creates a todo\nexport async function POST");
+        expect(patched).toContain("process.env.WS_INTERNAL_URL");
+    });
+
+    it("leaves a route that already broadcasts alone", () => {
+        const patched = withWebSocket.read(ROUTE)!;
+
+        expect(patchTodosRoute(ROUTE, patched, routeSnippet)).toBe(patched);
+    });
+
+    it("throws for a restructured route, whose diff is printed instead", () => {
+        const restructured = `export async function POST(request: Request) {
+    const todo = await createTodo(await request.json());
+    return Response.json(todo, { status: 201 });
+}
+`;
+
+        expect(() => patchTodosRoute(ROUTE, restructured, routeSnippet)).toThrow(
+            "its POST handler does not declare an `inserted` todo"
+        );
+        expect(() => patchTodosRoute(ROUTE, "export const GET = () => Response.json([]);\n", routeSnippet)).toThrow(
+            "it has no exported POST handler"
+        );
+    });
+});
+
+describe("patchTodosPage", () => {
+    it("subscribes in the effect of a page as generated", () => {
+        expect(patchTodosPage(PAGE, without.read(PAGE)!, pageSnippet)).toBe(withWebSocket.read(PAGE)!);
+    });
+
+    it("leaves a page that already subscribes alone", () => {
+        const patched = withWebSocket.read(PAGE)!;
+
+        expect(patchTodosPage(PAGE, patched, pageSnippet)).toBe(patched);
+    });
+
+    it("throws for an effect that already returns a cleanup", () => {
+        const page = `export default function Home() {
+    const [todos, setTodos] = useState([]);
+    useEffect(() => {
+        const timer = setInterval(() => fetchTodos().then(setTodos), 1000);
+        return () => clearInterval(timer);
+    }, []);
+    return <ul>{todos.length}</ul>;
+}
+`;
+
+        expect(() => patchTodosPage(PAGE, page, pageSnippet)).toThrow("its effect already returns a cleanup function");
+    });
+});
+
+describe("snippetFor", () => {
+    it("strips the types of a snippet for JavaScript projects", async () => {
+        const snippet = await snippetFor(
+            { ...config, language: "javascript" },
+            "const id: number = 1;\nreturn id;",
+            JSON.parse(without.read(".prettierrc")!)
+        );
+
+        expect(snippet).toBe("const id = 1;\nreturn id;");
+    });
+});
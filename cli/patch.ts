@@ -0,0 +1,124 @@
+import * as prettier from "prettier";
+import ts from "typescript";
+import type { ProjectConfig } from "./config";
+import { stripTypes } from "./javascript";
+
+function parse(file: string, source: string): ts.SourceFile {
+    const kind = /\.[jt]sx$/.test(file) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+    return ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true, kind);
+}
+
+const isExported = (node: ts.Node) =>
+    ts.canHaveModifiers(node) && Boolean(ts.getModifiers(node)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword));
+
+/** Body of an exported `function NAME() {}` or `const NAME = () => {}` */
+function exportedFunctionBody(sourceFile: ts.SourceFile, name: string): ts.Block | undefined {
+    for (const statement of sourceFile.statements) {
+        if (!isExported(statement)) continue;
+        if (ts.isFunctionDeclaration(statement) && statement.name?.text === name) return statement.body;
+        if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                const init = declaration.initializer;
+                if (!ts.isIdentifier(declaration.name) || declaration.name.text !== name || !init) continue;
+                if ((ts.isArrowFunction(init) || ts.isFunctionExpression(init)) && ts.isBlock(init.body)) {
+                    return init.body;
+                }
+            }
+        }
+    }
+}
+
+/** Whether `node` already contains `snippet`, ignoring how either is formatted */
+const hasSnippet = (node: ts.Node, snippet: string) =>
+    node.getText().replace(/\s+/g, "").includes(snippet.replace(/\s+/g, ""));
+
+/** Inserts `snippet` as new lines after `node`, separated by a blank line and indented like it */
+function insertAfter(source: string, node: ts.Node, snippet: string): string {
+    const start = node.getStart();
+    const indent = source.slice(source.lastIndexOf("\n", start - 1) + 1, start);
+    const lines = snippet
+        .replace(/^\n+/, "")
+        .split("\n")
+        .map((line) => (line ? indent + line : line));
+    return source.slice(0, node.getEnd()) + "\n\n" + lines.join("\n") + source.slice(node.getEnd());
+}
+
+/**
+ * Adds `snippet` to the POST handler of the todos API route, right after the statement
+ * that declares the `inserted` todo it publishes. Edits the file in place rather than
+ * replacing it, leaves a handler that already has the snippet alone and throws when the
+ * handler no longer has that shape.
+ */
+export function patchTodosRoute(file: string, source: string, snippet: string): string {
+    const post = exportedFunctionBody(parse(file, source), "POST");
+    if (!post) throw new Error("it has no exported POST handler");
+    if (hasSnippet(post, snippet)) return source;
+
+    const insert = post.statements.find(
+        (statement) =>
+            ts.isVariableStatement(statement) &&
+            statement.declarationList.declarations.some(
+                (declaration) => ts.isIdentifier(declaration.name) && declaration.name.text === "inserted"
+            )
+    );
+    if (!insert) throw new Error("its POST handler does not declare an `inserted` todo");
+
+    return insertAfter(source, insert, snippet);
+}
+
+/**
+ * Adds `snippet` to the end of the `useEffect(..., [])` of the default-exported page
+ * component. The snippet returns the effect's cleanup, so an effect that already returns
+ * one is not patched; one that already has the snippet is left alone.
+ */
+export function patchTodosPage(file: string, source: string, snippet: string): string {
+    const sourceFile = parse(file, source);
+    const component = sourceFile.statements.find(
+        (statement): statement is ts.FunctionDeclaration =>
+            ts.isFunctionDeclaration(statement) &&
+            Boolean(ts.getModifiers(statement)?.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword))
+    );
+    if (!component?.body) throw new Error("it has no default-exported component function");
+    if (!/\bsetTodos\b/.test(component.body.getText())) throw new Error("its component has no `setTodos` state");
+
+    const effect = component.body.statements
+        .map((statement) => (ts.isExpressionStatement(statement) ? statement.expression : undefined))
+        .find(
+            (expression): expression is ts.CallExpression =>
+                expression !== undefined &&
+                ts.isCallExpression(expression) &&
+                expression.expression.getText() === "useEffect" &&
+                expression.arguments.length === 2 &&
+                ts.isArrayLiteralExpression(expression.arguments[1]) &&
+                expression.arguments[1].elements.length === 0
+        );
+    const callback = effect?.arguments[0];
+    if (
+        !callback ||
+        !(ts.isArrowFunction(callback) || ts.isFunctionExpression(callback)) ||
+        !ts.isBlock(callback.body)
+    ) {
+        throw new Error("its component has no `useEffect(() => { ... }, [])` to subscribe in");
+    }
+
+    const body = callback.body;
+    if (hasSnippet(body, snippet)) return source;
+    if (body.statements.some(ts.isReturnStatement)) throw new Error("its effect already returns a cleanup function");
+    const last = body.statements.at(-1);
+    if (!last) throw new Error("its effect is empty");
+
+    return insertAfter(source, last, snippet);
+}
+
+/** A feature's TypeScript snippet in the project's language, formatted with its Prettier `options` */
+export async function snippetFor(config: ProjectConfig, snippet: string, options: prettier.Options): Promise<string> {
+    if (config.language === "typescript") return snippet;
+    // Stripped as the body of a function so statements such as `return` and `await` stay valid
+    const code = stripTypes("snippet.tsx", `async function snippet() {\n${snippet}\n}\n`);
+    const formatted = await prettier.format(code, { ...options, parser: "babel" });
+    return formatted
+        .split("\n")
+        .slice(1, -2)
+        .map((line) => line.replace(/^ {4}/, ""))
+        .join("\n");
+}
@@ -0,0 +1,74 @@
+import * as p from "@clack/prompts";
+import color from "picocolors";
+import { createTwoFilesPatch } from "diff";
+import type { FileChange } from "./apply";
+import type { ProjectConfig } from "./config";
+import { formatTree, type VirtualFs } from "./vfs";
+
+const PREVIEW_FILES = ["package.json", ".env.example", "docker-compose.yml"];
+
+const CHANGE_MARKS: Record<FileChange["kind"], string> = {
+    create: color.green("+"),
+    update: color.yellow("~"),
+    merge: color.yellow("~"),
+    delete: color.red("-"),
+    conflict: color.red("!")
+};
+
+/**
+ * Prints what a `--dry-run` would have written: the file tree, the main generated files
+ * and every template file an extra replaces, with a diff against the version it replaced.
+ */
+export function printPreview(project: VirtualFs, config: ProjectConfig) {
+    const files = project.files();
+    p.note(formatTree(files), `${config.name}/ (${files.length} files)`);
+
+    for (const file of PREVIEW_FILES) {
+        const content = project.read(file);
+        if (content === undefined) {
+            p.log.info(`${color.cyan(file)} ${color.dim("not generated for this configuration")}`);
+            continue;
+        }
+        p.note(content.trimEnd(), file);
+    }
+
+    // Generated files replacing the template's copy are expected; only extras are worth flagging
+    const replaced = project.overwrites.filter((overwrite) => overwrite.origin !== "generated");
+    if (replaced.length === 0) {
+        p.log.info("No template files are overwritten by extras");
+        return;
+    }
+
+    p.log.warn(`${replaced.length} template file(s) would be overwritten by extras:`);
+    for (const overwrite of replaced) {
+        const patch = createTwoFilesPatch(
+            overwrite.path,
+            overwrite.path,
+            overwrite.before,
+            overwrite.after,
+            overwrite.replaced,
+            overwrite.origin
+        );
+        console.log(`\n${color.bold(overwrite.path)} ${color.dim(`← ${overwrite.origin}`)}`);
+        console.log(colorizePatch(patch));
+    }
+}
+
+/** Lists the files a command changes in an existing project, one mark per kind of change */
+export function printChanges(changes: FileChange[]) {
+    p.note(changes.map((change) => `${CHANGE_MARKS[change.kind]} ${change.path}`).join("\n"), "Changes");
+}
+
+export function colorizePatch(patch: string): string {
+    return patch
+        .split("\n")
+        .slice(2) // drop the "Index:"/"====" header, the file names are printed above
+        .map((line) => {
+            if (line.startsWith("+++") || line.startsWith("---")) return color.dim(line);
+            if (line.startsWith("+")) return color.green(line);
+            if (line.startsWith("-")) return color.red(line);
+            if (line.startsWith("@@")) return color.cyan(line);
+            return line;
+        })
+        .join("\n");
+}
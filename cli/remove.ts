@@ -0,0 +1,44 @@
+import { CHOICES, type ProjectConfig } from "./config";
+import { ADDABLE_OPTIONS, ADDABLE_TOGGLES, assertDeployment, featureLabel } from "./add";
+
+export const REMOVE_USAGE = `Usage: bun run remove <feature> [options]
+
+Features:
+${ADDABLE_OPTIONS.map((option) => `  ${option.padEnd(12)}${CHOICES[option].filter((value) => value !== "none").join(" | ")}`).join("\n")}
+  tooling     docker | ci
+
+Options:
+  -C, --cwd <dir>   Project to remove the feature from (default: the current directory)
+      --dry-run     Show the changes without writing them
+      --force       Remove the feature even where edited files still use it
+  -y, --yes         Apply the changes without asking
+  -h, --help        Show this help`;
+
+/**
+ * Returns the config of the project without `feature`, the reverse of `withFeature`.
+ * Throws when the feature is unknown or not part of the project.
+ */
+export function withoutFeature(config: ProjectConfig, feature: string): ProjectConfig {
+    const toggle = ADDABLE_TOGGLES[feature];
+    if (toggle) {
+        if (!config[toggle]) throw new Error(`${featureLabel(feature)} is not part of this project`);
+        return assertDeployment(config, { ...config, [toggle]: false });
+    }
+
+    const option = ADDABLE_OPTIONS.find(
+        (key) => feature !== "none" && (CHOICES[key] as readonly string[]).includes(feature)
+    );
+    if (!option) {
+        throw new Error(`Unknown feature "${feature}". Run with --help to see the features that can be removed.`);
+    }
+
+    const current = config[option];
+    // shadcn/ui builds on Tailwind, so Tailwind cannot go while it stays
+    if (option === "styling" && feature === "tailwind" && current === "shadcn") {
+        throw new Error(`${featureLabel("shadcn")} builds on ${featureLabel("tailwind")}; remove shadcn instead`);
+    }
+    if (current !== feature) throw new Error(`${featureLabel(feature)} is not part of this project`);
+    // ...and removing it keeps Tailwind, which `add shadcn` replaced
+    if (feature === "shadcn") return { ...config, styling: "tailwind" };
+    return { ...config, [option]: "none" };
+}
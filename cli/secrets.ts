@@ -0,0 +1,31 @@
+import { randomBytes } from "node:crypto";
+
+/** Stands in for every generated secret in .env.example */
+export const SECRET_PLACEHOLDER = "change-me";
+
+/**
+ * The secrets of one project by name, e.g. `POSTGRES_PASSWORD`. A name gets a random value
+ * the first time it is asked for and the same value on every later call, so .env,
+ * docker-compose.yml and SETUP.md agree with each other.
+ */
+export type Secrets = (name: string) => string;
+
+/**
+ * 32 random bytes as base64url. Upper and lower case letters and digits satisfy SQL
+ * Server's password policy, and the alphabet needs no escaping in URLs, connection strings
+ * or YAML. A leading `-` would read as a flag to `sqlcmd -P`.
+ */
+export function randomSecret(): string {
+    for (;;) {
+        const secret = randomBytes(32).toString("base64url");
+        if (/^[A-Za-z0-9]/.test(secret) && /[a-z]/.test(secret) && /[A-Z]/.test(secret) && /\d/.test(secret)) {
+            return secret;
+        }
+    }
+}
+
+/** Secrets that start from `known` values, e.g. those of an existing project, and draw the rest */
+export function createSecrets(known: Record<string, string> = {}): Secrets {
+    const secrets = new Map(Object.entries(known));
+    return (name) => secrets.get(name) ?? secrets.set(name, randomSecret()).get(name)!;
+}
@@ -0,0 +1,51 @@
+import path from "path";
+import * as prettier from "prettier";
+import { fileURLToPath } from "url";
+import type { Slot } from "./features";
+import type { VirtualFs } from "./vfs";
+
+/** Relative to this module (or `dist/` once bundled) so commands run inside a project find it too */
+export const TEMPLATES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "cli-templates");
+
+/** A line holding nothing but `// {{NAME}}`, `{/* {{NAME}} *\/}` or `/* {{NAME}} *\/` */
+const SLOT_MARKER =
+    /^([ \t]*)(?:\/\/ \{\{([A-Z_]+)\}\}|\{\/\* \{\{([A-Z_]+)\}\} \*\/\}|\/\* \{\{([A-Z_]+)\}\} \*\/)[ \t]*\n/gm;
+
+const FORMATTED = /\.(?:[cm]?[jt]sx?|css)$/;
+
+/**
+ * Replaces slot markers with the contributed snippets, indented to the marker.
+ * Markers nobody contributes to are removed together with their line.
+ */
+export function renderSlots(source: string, slots: Partial<Record<Slot, string[]>>): string {
+    return source.replace(SLOT_MARKER, (_match, indent: string, ...names: (string | undefined)[]) => {
+        const name = names.find(Boolean) as Slot;
+        const snippets = [...new Set(slots[name] ?? [])];
+        if (snippets.length === 0) return "";
+        return (
+            snippets
+                .flatMap((snippet) => snippet.split("\n"))
+                .map((line) => (line ? indent + line : line))
+                .join("\n") + "\n"
+        );
+    });
+}
+
+/**
+ * Renders the slots of every file in the project that has any, then formats those files
+ * with the project's own Prettier config so snippet indentation never leaks through.
+ */
+export async function renderTemplates(project: VirtualFs, slots: Partial<Record<Slot, string[]>>) {
+    const rc = project.read(".prettierrc");
+    const options: prettier.Options = rc ? JSON.parse(rc) : {};
+
+    for (const file of project.files()) {
+        const source = project.read(file)!;
+        const rendered = renderSlots(source, slots);
+        if (rendered === source) continue;
+        project.write(
+            file,
+            FORMATTED.test(file) ? await prettier.format(rendered, { ...options, filepath: file }) : rendered
+        );
+    }
+}
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { execa } from "execa";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { DEFAULT_CONFIG } from "./config";
+import { hashContent, type Manifest } from "./manifest";
+import { generatedBase } from "./upgrade";
+import { VirtualFs } from "./vfs";
+
+const roots: string[] = [];
+
+afterEach(async () => {
+    await Promise.all(roots.splice(0).map((root) => fs.remove(root)));
+});
+
+const GENERATED = "const port = 3000;\n";
+const EDITED = "const port = 4000;\n";
+
+/** A project with `src/app.ts` as `content` on disk, generated as `GENERATED` */
+async function project(content: string, bases?: Record<string, string>): Promise<[string, Manifest]> {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "afc-upgrade-"));
+    roots.push(root);
+    await fs.outputFile(path.join(root, "src/app.ts"), content);
+    const manifest: Manifest = {
+        version: "0.0.0",
+        config: { ...DEFAULT_CONFIG, name: "demo" },
+        files: { "src/app.ts": hashContent(GENERATED) },
+        bases
+    };
+    return [root, manifest];
+}
+
+async function git(root: string, ...args: string[]) {
+    await execa("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd: root });
+}
+
+describe("generatedBase", () => {
+    it("takes a file still as generated as its own base", async () => {
+        const [root, manifest] = await project(GENERATED);
+
+        expect((await generatedBase(root, manifest, new VirtualFs())).read("src/app.ts")).toBe(GENERATED);
+    });
+
+    it("finds the generated version of an edited file in git history", async () => {
+        const [root, manifest] = await project(GENERATED);
+        await git(root, "init", "-q");
+        await git(root, "add", "-A");
+        await git(root, "commit", "-q", "-m", "Generate");
+        await fs.outputFile(path.join(root, "src/app.ts"), EDITED);
+        await git(root, "commit", "-q", "-am", "Edit");
+
+        expect((await generatedBase(root, manifest, new VirtualFs())).read("src/app.ts")).toBe(GENERATED);
+    });
+
+    it("leaves out an edited file whose generated version no commit has", async () => {
+        const [root, manifest] = await project(EDITED);
+        await git(root, "init", "-q");
+        await git(root, "add", "-A");
+        await git(root, "commit", "-q", "-m", "Generate");
+
+        expect((await generatedBase(root, manifest, new VirtualFs())).has("src/app.ts")).toBe(false);
+    });
+
+    it("leaves out an edited file outside a git repository", async () => {
+        const [root, manifest] = await project(EDITED);
+
+        expect((await generatedBase(root, manifest, new VirtualFs())).has("src/app.ts")).toBe(false);
+    });
+
+    it("takes the base afc.json recorded for an edited file", async () => {
+        const [root, manifest] = await project(EDITED, { "src/app.ts": GENERATED });
+
+        expect((await generatedBase(root, manifest, new VirtualFs())).read("src/app.ts")).toBe(GENERATED);
+    });
+
+    it("ignores a recorded base that no longer matches the hash", async () => {
+        const [root, manifest] = await project(EDITED, { "src/app.ts": "const port = 2000;\n" });
+
+        expect((await generatedBase(root, manifest, new VirtualFs())).has("src/app.ts")).toBe(false);
+    });
+});
@@ -0,0 +1,59 @@
+import fs from "fs-extra";
+import path from "path";
+import { execa } from "execa";
+import { hashContent, type Manifest } from "./manifest";
+import { VirtualFs } from "./vfs";
+
+export const UPGRADE_USAGE = `Usage: bun run upgrade [options]
+
+Regenerates the project from its afc.json with the current templates and merges the result in.
+
+Options:
+  -C, --cwd <dir>   Project to upgrade (default: the current directory)
+      --dry-run     Show the changes without writing them
+  -y, --yes         Apply the changes without asking
+  -h, --help        Show this help`;
+
+/**
+ * Recovers the files the CLI generated last time, to merge the new templates against.
+ * Files still matching their recorded hash are their own base; edited files are taken from
+ * the bases afc.json kept for them or looked up in the project's git history, and left out
+ * when neither has them as generated.
+ */
+export async function generatedBase(root: string, manifest: Manifest, after: VirtualFs): Promise<VirtualFs> {
+    const base = new VirtualFs();
+    for (const [file, hash] of Object.entries(manifest.files)) {
+        const target = path.join(root, file);
+        if (!fs.existsSync(target)) {
+            // A file the user deleted stays deleted: the new version becomes its base, so nothing changes
+            const next = after.read(file);
+            if (next !== undefined) base.write(file, next);
+            continue;
+        }
+        const current = await fs.readFile(target, "utf-8");
+        const recorded = manifest.bases?.[file];
+        const generated =
+            hashContent(current) === hash
+                ? current
+                : recorded !== undefined && hashContent(recorded) === hash
+                  ? recorded
+                  : await committedVersion(root, file, hash);
+        if (generated !== undefined) base.write(file, generated);
+    }
+    return base;
+}
+
+/** The content `file` had in the most recent commit where it matched `hash`, if any */
+async function committedVersion(root: string, file: string, hash: string): Promise<string | undefined> {
+    const log = await execa("git", ["log", "--format=%H", "-n", "50", "--", file], { cwd: root, reject: false });
+    if (log.failed) return undefined;
+
+    for (const commit of log.stdout.split("\n").filter(Boolean)) {
+        const show = await execa("git", ["show", `${commit}:./${file}`], {
+            cwd: root,
+            reject: false,
+            stripFinalNewline: false
+        });
+        if (!show.failed && hashContent(show.stdout) === hash) return show.stdout;
+    }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "bun:test";
+import { VirtualFs } from "./vfs";
+
+describe("VirtualFs", () => {
+    it("records which template an overwrite replaced", () => {
+        const project = new VirtualFs();
+        project.write("apps/web/src/lib/auth.ts", "base\n", "base");
+        project.write("apps/web/src/lib/auth.ts", "clerk\n", "extras/clerk");
+        project.write("apps/web/src/lib/auth.ts", "lucia\n", "extras/lucia");
+
+        expect(project.overwrites).toEqual([
+            {
+                path: "apps/web/src/lib/auth.ts",
+                origin: "extras/clerk",
+                replaced: "base",
+                before: "base\n",
+                after: "clerk\n"
+            },
+            {
+                path: "apps/web/src/lib/auth.ts",
+                origin: "extras/lucia",
+                replaced: "extras/clerk",
+                before: "clerk\n",
+                after: "lucia\n"
+            }
+        ]);
+    });
+
+    it("does not record a write of the same content", () => {
+        const project = new VirtualFs();
+        project.write("README.md", "# demo\n", "base");
+        project.write("README.md", "# demo\n", "generated");
+
+        expect(project.overwrites).toEqual([]);
+    });
+});
@@ -0,0 +1,126 @@
+import fs from "fs-extra";
+import path from "path";
+
+export interface Overwrite {
+    path: string;
+    /** Template or generator that replaced the file */
+    origin: string;
+    /** Template or generator the replaced content came from */
+    replaced: string;
+    before: string;
+    after: string;
+}
+
+/**
+ * In-memory project tree. The generators write here first so a run can be previewed
+ * (`--dry-run`) or written to disk in one go. Paths are relative to the project root
+ * and always use forward slashes.
+ */
+export class VirtualFs {
+    private readonly entries = new Map<string, { content: string; origin: string }>();
+    readonly overwrites: Overwrite[] = [];
+
+    write(file: string, content: string, origin = "generated") {
+        const key = normalize(file);
+        const existing = this.entries.get(key);
+        if (existing && existing.content !== content) {
+            this.overwrites.push({
+                path: key,
+                origin,
+                replaced: existing.origin,
+                before: existing.content,
+                after: content
+            });
+        }
+        this.entries.set(key, { content, origin });
+    }
+
+    writeJSON(file: string, data: unknown, origin?: string) {
+        this.write(file, JSON.stringify(data, null, 2) + "\n", origin);
+    }
+
+    read(file: string): string | undefined {
+        return this.entries.get(normalize(file))?.content;
+    }
+
+    has(file: string): boolean {
+        return this.entries.has(normalize(file));
+    }
+
+    remove(file: string) {
+        this.entries.delete(normalize(file));
+    }
+
+    /** Moves a file without recording an overwrite */
+    rename(from: string, to: string) {
+        const entry = this.entries.get(normalize(from));
+        if (!entry) return;
+        this.entries.delete(normalize(from));
+        this.entries.set(normalize(to), entry);
+        for (const overwrite of this.overwrites) {
+            if (overwrite.path === normalize(from)) overwrite.path = normalize(to);
+        }
+    }
+
+    /** Sorted list of every file path */
+    files(): string[] {
+        return [...this.entries.keys()].sort();
+    }
+
+    /**
+     * Copies a file or directory from disk (e.g. a template) into the tree.
+     */
+    async copyFrom(source: string, target: string, origin = source) {
+        const stat = await fs.stat(source);
+        if (stat.isDirectory()) {
+            for (const entry of await fs.readdir(source)) {
+                await this.copyFrom(path.join(source, entry), path.posix.join(normalize(target), entry), origin);
+            }
+            return;
+        }
+        this.write(target, await fs.readFile(source, "utf-8"), origin);
+    }
+
+    async flush(root: string) {
+        for (const [file, { content }] of this.entries) {
+            const target = path.join(root, file);
+            await fs.outputFile(target, content);
+        }
+    }
+}
+
+function normalize(file: string): string {
+    return file.split(path.sep).join("/").replace(/^\.\//, "");
+}
+
+/**
+ * Renders paths as an indented tree, directories first.
+ */
+export function formatTree(files: string[]): string {
+    type Node = Map<string, Node>;
+    const root: Node = new Map();
+    for (const file of files) {
+        let node = root;
+        for (const part of file.split("/")) {
+            if (!node.has(part)) node.set(part, new Map());
+            node = node.get(part)!;
+        }
+    }
+
+    const lines: string[] = [];
+    const walk = (node: Node, prefix: string) => {
+        const children = [...node.entries()].sort(([a, aNode], [b, bNode]) => {
+            const aDir = aNode.size > 0;
+            const bDir = bNode.size > 0;
+            if (aDir !== bDir) return aDir ? -1 : 1;
+            return a.localeCompare(b);
+        });
+        children.forEach(([name, child], index) => {
+            const last = index === children.length - 1;
+            lines.push(`${prefix}${last ? "└── " : "├── "}${name}${child.size > 0 ? "/" : ""}`);
+            walk(child, prefix + (last ? "    " : "│   "));
+        });
+    };
+    walk(root, "");
+    return lines.join("\n");
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "bun:test";
+import { parse } from "yaml";
+import { DEFAULT_CONFIG, type ProjectConfig } from "./config";
+import { generateProject } from "./generate";
+
+const WORKFLOW = ".github/workflows/ci.yml";
+
+interface Step {
+    name?: string;
+    uses?: string;
+    run?: string;
+    if?: string;
+}
+
+interface Workflow {
+    jobs: {
+        checks: {
+            services?: Record<string, { image: string; options?: string }>;
+            env: Record<string, string>;
+            steps: Step[];
+        };
+        docker?: { needs: string; steps: Step[] };
+    };
+}
+
+async function workflow(overrides: Partial<ProjectConfig> = {}): Promise<Workflow> {
+    const project = await generateProject({ ...DEFAULT_CONFIG, name: "demo", ...overrides });
+    return parse(project.read(WORKFLOW)!);
+}
+
+const run = (steps: Step[], name: string) => steps.find((step) => step.name === name)?.run;
+
+describe("CI workflow", () => {
+    it("should not be written without cicd", async () => {
+        const project = await generateProject({ ...DEFAULT_CONFIG, name: "demo", cicd: false });
+
+        expect(project.has(WORKFLOW)).toBe(false);
+    });
+
+    it("should run the database as a service container waited on through its healthcheck", async () => {
+        const { checks } = (await workflow({ database: "mysql" })).jobs;
+
+        expect(Object.keys(checks.services!)).toEqual(["mysql"]);
+        expect(checks.services!.mysql.image).toBe("mysql:8");
+        expect(checks.services!.mysql.options).toContain('--health-cmd "mysqladmin ping -h localhost"');
+        expect(checks.env.DATABASE_URL).toStartWith("mysql://app:");
+    });
+
+    it("should have no service containers without a local database", async () => {
+        for (const overrides of [{ database: "sqlite" }, { database: "none", orm: "none" }] as const) {
+            expect((await workflow(overrides)).jobs.checks).not.toHaveProperty("services");
+        }
+    });
+
+    it("should install with the project's package manager", async () => {
+        const bun = (await workflow({ packageManager: "bun" })).jobs.checks.steps;
+        const pnpm = (await workflow({ packageManager: "pnpm" })).jobs.checks.steps;
+        const npm = (await workflow({ packageManager: "npm" })).jobs.checks.steps;
+
+        expect(bun.map((step) => step.uses).filter(Boolean)).toContain("actions/cache@v4");
+        expect(run(bun, "Install")).toBe("bun install --frozen-lockfile");
+        expect(pnpm.map((step) => step.uses)).toContain("pnpm/action-setup@v4");
+        expect(run(pnpm, "Install")).toBe("pnpm install --frozen-lockfile");
+        expect(npm.map((step) => step.uses)).not.toContain("pnpm/action-setup@v4");
+        expect(run(npm, "Install")).toBe("npm ci");
+        // bun:test runs the tests whichever package manager installs
+        expect(npm.map((step) => step.uses)).toContain("oven-sh/setup-bun@v2");
+    });
+
+    it("should migrate with the project's ORM", async () => {
+        const drizzle = (await workflow({ orm: "drizzle" })).jobs.checks.steps;
+        const prisma = (await workflow({ orm: "prisma" })).jobs.checks.steps;
+        const hosted = (await workflow({ hasHostedDb: true })).jobs.checks;
+
+        expect(drizzle.find((step) => step.name === "Migrate database")!.if).toContain("_journal.json");
+        expect(run(prisma, "Migrate database")).toBe("bun run db:deploy");
+        expect(run(hosted.steps, "Migrate database")).toBeUndefined();
+        expect(hosted.env.DATABASE_URL).toBe("${{ secrets.DATABASE_URL }}");
+    });
+
+    it("should typecheck TypeScript projects only", async () => {
+        expect(run((await workflow()).jobs.checks.steps, "Typecheck")).toBe("bun run typecheck");
+        expect(run((await workflow({ language: "javascript" })).jobs.checks.steps, "Typecheck")).toBeUndefined();
+    });
+
+    it("should build every Dockerfile after the checks", async () => {
+        const { docker } = (await workflow({ realtime: "websocket" })).jobs;
+
+        expect(docker!.needs).toBe("checks");
+        expect(docker!.steps.map((step) => step.run).filter(Boolean)).toEqual([
+            "docker build -f apps/web/Dockerfile -t demo-web:ci .",
+            "docker build -f apps/ws/Dockerfile -t demo-ws:ci ."
+        ]);
+        expect((await workflow({ docker: false, deployment: "vercel" })).jobs).not.toHaveProperty("docker");
+    });
+});
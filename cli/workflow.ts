@@ -0,0 +1,178 @@
+import path from "path";
+import { Document } from "yaml";
+import type { ComposeService, FeatureContext, FeatureModule, ServiceDefinition } from "./features";
+import type { VirtualFs } from "./vfs";
+
+/**
+ * Stands in for every secret while CI runs. The database only lives as long as the job, and
+ * the value passes the `env.ts` checks: 32+ characters and SQL Server's password policy.
+ */
+const CI_SECRET = "ci-only-secret-not-for-production-1";
+
+/** Quotes the arguments of an exec-form healthcheck for a shell */
+function shellJoin(args: string[]): string {
+    return args.map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : JSON.stringify(arg))).join(" ");
+}
+
+/** `docker create` options that run the healthcheck of a compose service */
+function healthOptions({ healthcheck }: ComposeService): string[] {
+    return healthcheck
+        ? [
+              `--health-cmd ${JSON.stringify(healthcheck.test[0] === "CMD-SHELL" ? healthcheck.test[1] : shellJoin(healthcheck.test.slice(1)))}`,
+              ...(healthcheck.interval ? [`--health-interval ${healthcheck.interval}`] : []),
+              ...(healthcheck.timeout ? [`--health-timeout ${healthcheck.timeout}`] : []),
+              ...(healthcheck.retries ? [`--health-retries ${healthcheck.retries}`] : [])
+          ]
+        : [];
+}
+
+/** A compose service as a service container of the job, waited on through its healthcheck */
+function serviceContainer({ service }: ServiceDefinition) {
+    const options = healthOptions(service);
+    return {
+        image: service.image,
+        ...(service.environment ? { env: service.environment } : {}),
+        ...(service.ports ? { ports: service.ports } : {}),
+        ...(options.length > 0 ? { options: options.join(" ") } : {})
+    };
+}
+
+/**
+ * A step that starts a compose service with its own entrypoint, which service containers cannot
+ * set, e.g. MongoDB as a replica set, and waits until its healthcheck passes.
+ */
+function containerStep({ name, label, service }: ServiceDefinition) {
+    const [program, ...args] = service.entrypoint!;
+    const run = [
+        "docker run -d",
+        `--name ${name}`,
+        ...Object.entries(service.environment ?? {}).map(([key, value]) => `-e ${shellJoin([`${key}=${value}`])}`),
+        ...(service.ports ?? []).map((port) => `-p ${port}`),
+        ...healthOptions(service),
+        `--entrypoint ${program}`,
+        service.image,
+        shellJoin(args)
+    ].join(" ");
+    return {
+        name: `Start ${label}`,
+        "timeout-minutes": 2,
+        run: `${run}\nuntil [ "$(docker inspect -f '{{.State.Health.Status}}' ${name})" = healthy ]; do sleep 2; done`
+    };
+}
+
+/** Steps that install the package manager with a cache of its store */
+function setupSteps({ config, pm }: FeatureContext): Record<string, unknown>[] {
+    const bun = { uses: "oven-sh/setup-bun@v2", with: { "bun-version": "1.3.0" } };
+    if (pm === "bun") {
+        return [
+            bun,
+            {
+                uses: "actions/cache@v4",
+                with: {
+                    path: "~/.bun/install/cache",
+                    key: "${{ runner.os }}-bun-${{ hashFiles('bun.lock') }}",
+                    "restore-keys": "${{ runner.os }}-bun-"
+                }
+            }
+        ];
+    }
+    return [
+        // pnpm/action-setup reads the version from the packageManager field of package.json
+        ...(config.packageManager === "pnpm" ? [{ uses: "pnpm/action-setup@v4" }] : []),
+        { uses: "actions/setup-node@v4", with: { "node-version": 20, cache: pm } },
+        // The tests run on bun:test whichever package manager installs the dependencies
+        bun
+    ];
+}
+
+/**
+ * Writes `.github/workflows/ci.yml` for the selected stack: install with the project's
+ * package manager, lint, typecheck, migrate, test and build against a service container of
+ * the database, then build every Dockerfile of the project. Runs after the layout is
+ * applied so the Dockerfiles are found where the project keeps them.
+ */
+export function generateWorkflow(project: VirtualFs, features: FeatureModule[], ctx: FeatureContext) {
+    const { config, pm } = ctx;
+    const ci: FeatureContext = { ...ctx, secret: () => CI_SECRET };
+    const database = features
+        .flatMap((feature) => feature.services?.(ci) ?? [])
+        .find((service) => service.name === config.database);
+
+    // Every variable env.ts validates during the build, with the values of the CI database
+    const env: Record<string, string> = {};
+    for (const { key, value } of features
+        .flatMap((feature) => feature.env?.(ci) ?? [])
+        .flatMap((group) => group.vars)) {
+        if (value !== "") env[key] = value;
+    }
+    // A hosted connection string is a credential; it comes from the repository secrets instead
+    if (config.hasHostedDb && env.DATABASE_URL) env.DATABASE_URL = "${{ secrets.DATABASE_URL }}";
+
+    const migrate =
+        config.hasHostedDb || config.database === "none"
+            ? undefined
+            : config.orm === "prisma"
+              ? { name: "Migrate database", run: `${pm} run db:deploy` }
+              : config.orm === "drizzle"
+                ? {
+                      name: "Migrate database",
+                      // drizzle-kit has nothing to apply until the first migration is generated
+                      if: "hashFiles('drizzle/meta/_journal.json') != ''",
+                      run: `${pm} run db:migrate`
+                  }
+                : undefined;
+
+    const dockerfiles = project.files().filter((file) => path.posix.basename(file) === "Dockerfile");
+
+    const workflow = {
+        name: "CI",
+        on: { pull_request: null, push: { branches: ["**"] } },
+        jobs: {
+            checks: {
+                "runs-on": "ubuntu-latest",
+                permissions: { contents: "read" },
+                ...(database && !database.service.entrypoint
+                    ? { services: { [database.name]: serviceContainer(database) } }
+                    : {}),
+                env,
+                steps: [
+                    { uses: "actions/checkout@v4" },
+                    ...(database?.service.entrypoint ? [containerStep(database)] : []),
+                    ...setupSteps(ctx),
+                    {
+                        name: "Install",
+                        run: pm === "npm" ? "npm ci" : `${pm} install --frozen-lockfile`
+                    },
+                    { name: "Lint", run: `${pm} run lint` },
+                    ...(config.language === "typescript" ? [{ name: "Typecheck", run: `${pm} run typecheck` }] : []),
+                    ...(migrate ? [migrate] : []),
+                    { name: "Test", run: `${pm} run test` },
+                    { name: "Build", run: `${pm} run build` }
+                ]
+            },
+            ...(dockerfiles.length > 0
+                ? {
+                      docker: {
+                          needs: "checks",
+                          "runs-on": "ubuntu-latest",
+                          permissions: { contents: "read" },
+                          steps: [
+                              { uses: "actions/checkout@v4" },
+                              ...dockerfiles.map((file) => {
+                                  const name = path.posix.dirname(file).split("/").at(-1);
+                                  const image = name === "." ? "web" : name;
+                                  return {
+                                      name: `Build ${image} image`,
+                                      run: `docker build -f ${file} -t ${config.name}-${image}:ci .`
+                                  };
+                              })
+                          ]
+                      }
+                  }
+                : {})
+        }
+    };
+
+    const doc = new Document(workflow);
+    project.write(".github/workflows/ci.yml", doc.toString({ indent: 4, lineWidth: 0, nullStr: "" }));
+}
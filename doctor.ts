@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+import * as p from "@clack/prompts";
+import color from "picocolors";
+import fs from "fs-extra";
+import path from "path";
+import { parseProjectCommandArgs } from "./cli/args";
+import { detectConfig } from "./cli/detect";
+import { diagnose, DOCTOR_USAGE, type Diagnosis } from "./cli/doctor";
+import { MANIFEST_FILE, readManifest } from "./cli/manifest";
+
+const STATUS_MARKS: Record<Diagnosis["status"], string> = {
+    ok: color.green("✓"),
+    warn: color.yellow("!"),
+    fail: color.red("✗"),
+    skip: color.dim("-")
+};
+
+async function main() {
+    let options: ReturnType<typeof parseProjectCommandArgs>;
+    try {
+        options = parseProjectCommandArgs(process.argv.slice(2), 0);
+    } catch (error) {
+        p.cancel(error instanceof Error ? error.message : "Invalid arguments");
+        console.log(`\n${DOCTOR_USAGE}`);
+        process.exit(1);
+    }
+
+    if (options.help) {
+        console.log(DOCTOR_USAGE);
+        process.exit(0);
+    }
+
+    const root = path.resolve(options.cwd);
+
+    p.intro(color.bgCyan(color.black(" AFC Stack doctor ")));
+
+    // Check if we're in an AFC Stack project
+    if (
+        !fs.existsSync(path.join(root, MANIFEST_FILE)) &&
+        !(fs.existsSync(path.join(root, "package.json")) && fs.existsSync(path.join(root, ".env.example")))
+    ) {
+        p.cancel("This doesn't appear to be an AFC Stack project. Make sure you're in the project root.");
+        process.exit(1);
+    }
+
+    const s = p.spinner();
+    s.start("Reading project");
+
+    try {
+        const manifest = await readManifest(root);
+        const config = manifest?.config ?? (await detectConfig(root));
+        s.message("Checking the setup");
+        const sections = await diagnose(root, config);
+        s.stop(
+            `${manifest ? "Read" : "Detected"} a ${config.monorepo ? "monorepo" : "single app"} using ${config.database === "none" ? "no database" : config.database}`
+        );
+
+        for (const section of sections) {
+            p.log.step(color.bold(section.title));
+            for (const diagnosis of section.diagnoses) {
+                const message = diagnosis.status === "ok" ? color.dim(diagnosis.message) : diagnosis.message;
+                console.log(`${color.gray("│")}  ${STATUS_MARKS[diagnosis.status]} ${message}`);
+                if (diagnosis.fix) console.log(`${color.gray("│")}    ${color.cyan("→")} ${diagnosis.fix}`);
+            }
+        }
+
+        const diagnoses = sections.flatMap((section) => section.diagnoses);
+        const failures = diagnoses.filter((diagnosis) => diagnosis.status === "fail").length;
+        const warnings = diagnoses.filter((diagnosis) => diagnosis.status === "warn").length;
+        if (failures > 0) {
+            p.outro(
+                `${color.red(`${failures} problem(s)`)}${warnings > 0 ? ` and ${warnings} warning(s)` : ""} found, see the fixes above`
+            );
+            process.exit(1);
+        }
+        p.outro(
+            warnings > 0
+                ? `${color.yellow(`${warnings} warning(s)`)}, otherwise the setup looks good`
+                : `${color.green("✓")} Everything looks good`
+        );
+    } catch (error) {
+        s.stop("Failed to check project");
+        p.cancel(error instanceof Error ? error.message : "Unknown error");
+        process.exit(1);
+    }
+}
+
+main().catch(console.error);
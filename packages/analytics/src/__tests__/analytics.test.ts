@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, mock } from "bun:test";
+import { createAnalytics, noopProvider, plausibleProvider, umamiProvider, type AnalyticsProvider } from "../index";
+
+const realFetch = globalThis.fetch;
+
+/** Replaces fetch with a stub and returns the JSON bodies it was called with */
+function captureRequests() {
+    const bodies: { url: string; body: unknown }[] = [];
+    globalThis.fetch = mock(async (url: string | URL | Request, init?: RequestInit) => {
+        bodies.push({ url: String(url), body: JSON.parse(String(init?.body)) });
+        return new Response(null, { status: 202 });
+    }) as unknown as typeof fetch;
+    return bodies;
+}
+
+afterEach(() => {
+    globalThis.fetch = realFetch;
+});
+
+describe("createAnalytics", () => {
+    it("should pass events and identities to the provider", async () => {
+        const calls: unknown[][] = [];
+        const provider: AnalyticsProvider = {
+            name: "memory",
+            track: (...args) => void calls.push(["track", ...args]),
+            identify: (...args) => void calls.push(["identify", ...args])
+        };
+        const analytics = createAnalytics(provider);
+
+        await analytics.track("todo_created", { title_length: 12 });
+        await analytics.identify("user-1");
+
+        expect(calls).toEqual([
+            ["track", "todo_created", { title_length: 12 }],
+            ["identify", "user-1", {}]
+        ]);
+    });
+
+    it("should swallow the provider's errors", async () => {
+        const analytics = createAnalytics({
+            ...noopProvider(),
+            track: async () => {
+                throw new Error("unreachable host");
+            }
+        });
+
+        await expect(analytics.track("todo_created", { title_length: 1 })).resolves.toBeUndefined();
+    });
+});
+
+describe("server-side providers", () => {
+    it("should send Plausible events to the Events API", async () => {
+        const requests = captureRequests();
+        await plausibleProvider({ domain: "example.com" }).track("todo_created", { title_length: 3 });
+
+        expect(requests).toEqual([
+            {
+                url: "https://plausible.io/api/event",
+                body: {
+                    name: "todo_created",
+                    url: "https://example.com/",
+                    domain: "example.com",
+                    props: { title_length: 3 }
+                }
+            }
+        ]);
+    });
+
+    it("should send Umami events to the send API of the configured host", async () => {
+        const requests = captureRequests();
+        await umamiProvider({ websiteId: "site", host: "http://localhost:3001" }).track("todo_created", {
+            title_length: 3
+        });
+
+        expect(requests[0].url).toBe("http://localhost:3001/api/send");
+        expect(requests[0].body).toMatchObject({
+            type: "event",
+            payload: { website: "site", name: "todo_created", data: { title_length: 3 } }
+        });
+    });
+});
@@ -0,0 +1,16 @@
+/** Sent with server-side events: Plausible and Umami drop requests without a User-Agent or with a bot's */
+export const SERVER_USER_AGENT = "Mozilla/5.0 (X11; Linux x86_64) ac-analytics/0.1";
+
+export function isBrowser(): boolean {
+    return typeof window !== "undefined";
+}
+
+/** Appends a deferred script with `data-*` attributes to the page, once per `src` */
+export function loadScript(src: string, data: Record<string, string>) {
+    if (document.querySelector(`script[src="${src}"]`)) return;
+    const script = document.createElement("script");
+    script.defer = true;
+    script.src = src;
+    Object.assign(script.dataset, data);
+    document.head.appendChild(script);
+}
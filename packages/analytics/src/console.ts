@@ -0,0 +1,15 @@
+import type { AnalyticsProvider } from "./types";
+
+/** Logs every call instead of sending it, for development */
+export function consoleProvider(): AnalyticsProvider {
+    return {
+        name: "console",
+        track: (event, props) => console.info("[analytics] track", event, props),
+        identify: (userId, traits) => console.info("[analytics] identify", userId, traits)
+    };
+}
+
+/** Drops every call, for tests and when no provider is configured */
+export function noopProvider(): AnalyticsProvider {
+    return { name: "none", track: () => {}, identify: () => {} };
+}
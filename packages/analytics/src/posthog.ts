@@ -0,0 +1,50 @@
+import type { PostHog } from "posthog-js";
+import { isBrowser } from "./browser";
+import type { AnalyticsProvider } from "./types";
+
+export interface PostHogOptions {
+    /** Project API key */
+    key: string;
+    host?: string;
+}
+
+/**
+ * PostHog through posthog-js in the browser, which also captures the page views, and through
+ * the capture API on the server. Server events of anonymous requests create no person profile.
+ */
+export function posthogProvider({ key, host = "https://us.posthog.com" }: PostHogOptions): AnalyticsProvider {
+    let client: Promise<PostHog> | undefined;
+
+    const capture = async (event: string, distinctId: string, properties: Record<string, unknown>) => {
+        await fetch(`${host}/capture/`, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ api_key: key, event, distinct_id: distinctId, properties })
+        });
+    };
+
+    return {
+        name: "posthog",
+        init() {
+            // Loaded on demand so the server bundle never pulls in the browser SDK
+            client = import("posthog-js").then(({ default: posthog }) => {
+                posthog.init(key, { api_host: host, capture_pageview: true });
+                return posthog;
+            });
+        },
+        async track(event, props) {
+            if (isBrowser()) {
+                (await client)?.capture(event, props);
+                return;
+            }
+            await capture(event, crypto.randomUUID(), { ...props, $process_person_profile: false });
+        },
+        async identify(userId, traits) {
+            if (isBrowser()) {
+                (await client)?.identify(userId, traits);
+                return;
+            }
+            await capture("$identify", userId, { $set: traits });
+        }
+    };
+}
@@ -0,0 +1,13 @@
+/** Values every provider accepts as event properties */
+export type EventProps = Record<string, string | number | boolean | null>;
+
+/**
+ * Where events are sent. Providers run in the browser and on the server: `init` is only
+ * called in the browser, where it loads the provider's SDK or script.
+ */
+export interface AnalyticsProvider {
+    name: string;
+    init?(): void;
+    track(event: string, props: EventProps): void | Promise<void>;
+    identify(userId: string, traits: EventProps): void | Promise<void>;
+}
@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+import * as p from "@clack/prompts";
+import color from "picocolors";
+import fs from "fs-extra";
+import path from "path";
+import { featureLabel } from "./cli/add";
+import { parseProjectCommandArgs } from "./cli/args";
+import { applyChanges, planChanges } from "./cli/apply";
+import { detectConfig, readSecrets } from "./cli/detect";
+import { featureContext, generateProject } from "./cli/generate";
+import { MANIFEST_FILE, readManifest } from "./cli/manifest";
+import { colorizePatch, printChanges } from "./cli/preview";
+import { REMOVE_USAGE, withoutFeature } from "./cli/remove";
+import { createSecrets } from "./cli/secrets";
+
+async function main() {
+    let options: ReturnType<typeof parseProjectCommandArgs>;
+    try {
+        options = parseProjectCommandArgs(process.argv.slice(2), 1);
+    } catch (error) {
+        p.cancel(error instanceof Error ? error.message : "Invalid arguments");
+        console.log(`\n${REMOVE_USAGE}`);
+        process.exit(1);
+    }
+
+    const [feature] = options.args;
+    if (options.help || !feature) {
+        console.log(REMOVE_USAGE);
+        process.exit(options.help ? 0 : 1);
+    }
+
+    const { yes, dryRun, force } = options;
+    const root = path.resolve(options.cwd);
+
+    p.intro(color.bgCyan(color.black(` Remove ${featureLabel(feature)} from AFC Stack `)));
+
+    // Check if we're in an AFC Stack project
+    if (
+        !fs.existsSync(path.join(root, MANIFEST_FILE)) &&
+        !(fs.existsSync(path.join(root, "package.json")) && fs.existsSync(path.join(root, ".env.example")))
+    ) {
+        p.cancel("This doesn't appear to be an AFC Stack project. Make sure you're in the project root.");
+        process.exit(1);
+    }
+
+    const s = p.spinner();
+    s.start("Reading project");
+
+    try {
+        const manifest = await readManifest(root);
+        const config = manifest?.config ?? (await detectConfig(root));
+        const next = withoutFeature(config, feature);
+
+        s.message("Generating changes");
+        // The reverse of `add`: the project with the feature is the base, the one without it the target
+        const secrets = createSecrets(await readSecrets(root));
+        const after = await generateProject(next, secrets);
+        const changes = await planChanges(root, await generateProject(config, secrets), after, { manifest });
+        s.stop(
+            `${manifest ? "Read" : "Detected"} a ${config.monorepo ? "monorepo" : "single app"} using ${config.language} and ${config.packageManager}`
+        );
+
+        if (changes.length === 0) {
+            p.outro(`${featureLabel(feature)} left nothing to remove from this project`);
+            return;
+        }
+
+        printChanges(changes);
+        const conflicts = changes.filter((change) => change.kind === "conflict");
+        for (const conflict of conflicts) {
+            const hint =
+                after.read(conflict.path) === undefined
+                    ? "has been edited and is kept, delete it by hand once you no longer need it:"
+                    : "has been edited, apply this change by hand:";
+            console.log(`\n${color.bold(conflict.path)} ${color.dim(hint)}`);
+            console.log(colorizePatch(conflict.patch!));
+        }
+
+        if (dryRun) {
+            p.outro(`${color.yellow("Dry run:")} nothing was written`);
+            return;
+        }
+
+        // The edited files may still import the feature, which would break once its dependencies, env vars and files go
+        if (conflicts.length > 0 && !force) {
+            p.cancel(
+                `${conflicts.length} edited file(s) may still use ${featureLabel(feature)}. Apply the diffs above by hand and run remove again, or pass --force to remove it anyway`
+            );
+            process.exit(1);
+        }
+
+        if (!yes) {
+            const confirm = await p.confirm({
+                message: `Apply ${changes.length - conflicts.length} change(s) to ${path.basename(root)}?`,
+                initialValue: true
+            });
+            if (!confirm || p.isCancel(confirm)) {
+                p.cancel("Operation cancelled");
+                process.exit(0);
+            }
+        }
+
+        await applyChanges(root, changes);
+
+        const { pm } = featureContext(next);
+        p.outro(
+            `${color.green("✓")} ${featureLabel(feature)} has been removed!` +
+                (changes.some((change) => change.path.endsWith("package.json") && change.kind !== "conflict")
+                    ? `\n\nRun ${color.cyan(`${pm} install`)} to drop its dependencies from the lockfile`
+                    : "") +
+                (conflicts.length > 0
+                    ? `\n\n${color.yellow(`${conflicts.length} edited file(s) were left unchanged`)}, apply the diffs above by hand`
+                    : "")
+        );
+    } catch (error) {
+        s.stop("Failed to remove feature");
+        p.cancel(error instanceof Error ? error.message : "Unknown error");
+        process.exit(1);
+    }
+}
+
+main().catch(console.error);
@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+import * as p from "@clack/prompts";
+import color from "picocolors";
+import path from "path";
+import { applyChanges, planChanges } from "./cli/apply";
+import { parseProjectCommandArgs } from "./cli/args";
+import { readSecrets } from "./cli/detect";
+import { featureContext, generateProject } from "./cli/generate";
+import { CLI_VERSION, MANIFEST_FILE, readManifest } from "./cli/manifest";
+import { colorizePatch, printChanges } from "./cli/preview";
+import { createSecrets } from "./cli/secrets";
+import { generatedBase, UPGRADE_USAGE } from "./cli/upgrade";
+
+async function main() {
+    let options: ReturnType<typeof parseProjectCommandArgs>;
+    try {
+        options = parseProjectCommandArgs(process.argv.slice(2), 0);
+    } catch (error) {
+        p.cancel(error instanceof Error ? error.message : "Invalid arguments");
+        console.log(`\n${UPGRADE_USAGE}`);
+        process.exit(1);
+    }
+
+    if (options.help) {
+        console.log(UPGRADE_USAGE);
+        process.exit(0);
+    }
+
+    const { yes, dryRun } = options;
+    const root = path.resolve(options.cwd);
+
+    p.intro(color.bgCyan(color.black(" Upgrade AFC Stack project ")));
+
+    const s = p.spinner();
+    s.start("Reading afc.json");
+
+    try {
+        const manifest = await readManifest(root);
+        if (!manifest) {
+            s.stop("No afc.json found");
+            p.cancel(
+                `Upgrading needs the ${MANIFEST_FILE} written when the project was generated. Make sure you're in the project root.`
+            );
+            process.exit(1);
+        }
+
+        s.message("Generating the project with the current templates");
+        // The project keeps its passwords; only secrets of services it does not have yet are drawn
+        const after = await generateProject(manifest.config, createSecrets(await readSecrets(root)));
+        s.message("Looking up the previously generated files");
+        const changes = await planChanges(root, await generatedBase(root, manifest, after), after, {
+            manifest,
+            markers: `afc-stack ${CLI_VERSION}`
+        });
+        s.stop(`Generated by afc-stack ${manifest.version}, upgrading to ${CLI_VERSION}`);
+
+        if (changes.every((change) => change.path === MANIFEST_FILE)) {
+            if (!dryRun) await applyChanges(root, changes);
+            p.outro("The project is up to date with the current templates");
+            return;
+        }
+
+        printChanges(changes);
+        const conflicts = changes.filter((change) => change.kind === "conflict");
+        const unmerged = conflicts.filter((change) => change.content === undefined);
+        for (const conflict of unmerged) {
+            console.log(
+                `\n${color.bold(conflict.path)} ${color.dim("has been edited and its generated version is unknown, apply this change by hand:")}`
+            );
+            console.log(colorizePatch(conflict.patch!));
+        }
+
+        if (dryRun) {
+            p.outro(`${color.yellow("Dry run:")} nothing was written`);
+            return;
+        }
+
+        if (!yes) {
+            const confirm = await p.confirm({
+                message: `Apply ${changes.length - unmerged.length} change(s) to ${path.basename(root)}?`,
+                initialValue: true
+            });
+            if (!confirm || p.isCancel(confirm)) {
+                p.cancel("Operation cancelled");
+                process.exit(0);
+            }
+        }
+
+        await applyChanges(root, changes);
+
+        const { pm } = featureContext(manifest.config);
+        const marked = conflicts.filter((change) => change.content !== undefined);
+        p.outro(
+            `${color.green("✓")} Upgraded to afc-stack ${CLI_VERSION}` +
+                (changes.some((change) => change.path.endsWith("package.json") && change.kind !== "conflict")
+                    ? `\n\nRun ${color.cyan(`${pm} install`)} to install updated dependencies`
+                    : "") +
+                (marked.length > 0
+                    ? `\n\n${color.yellow("Resolve the conflict markers in:")}\n${marked.map((change) => `  ${change.path}`).join("\n")}`
+                    : "") +
+                (unmerged.length > 0
+                    ? `\n\n${color.yellow(`${unmerged.length} edited file(s) were left unchanged`)}, apply the diffs above by hand`
+                    : "")
+        );
+    } catch (error) {
+        s.stop("Failed to upgrade project");
+        p.cancel(error instanceof Error ? error.message : "Unknown error");
+        process.exit(1);
+    }
+}
+
+main().catch(console.error);